@@ -0,0 +1,274 @@
+/*
+ * This file is part of Cockpit Machines Dashboard.
+ *
+ * Copyright (C) 2026
+ *
+ * Cockpit is free software; you can redistribute it and/or modify it
+ * under the terms of the GNU Lesser General Public License as published by
+ * the Free Software Foundation; either version 2.1 of the License, or
+ * (at your option) any later version.
+ */
+
+import cockpit from "cockpit";
+import React, { useState, useEffect, useCallback, useMemo, useRef } from "react";
+
+import {
+    Alert,
+    Button,
+    EmptyState,
+    EmptyStateBody,
+    Label,
+    LabelGroup,
+    SearchInput,
+    Spinner,
+    Toolbar,
+    ToolbarContent,
+    ToolbarItem,
+} from "@patternfly/react-core";
+import { SyncAltIcon, SecurityIcon } from "@patternfly/react-icons";
+import {
+    Table,
+    Tbody,
+    Td,
+    Th,
+    Thead,
+    Tr,
+} from "@patternfly/react-table";
+
+import {
+    type PackageUpdate,
+    type UpdateDetail,
+    type UpdateSeverity,
+    UPDATE_SEVERITIES,
+    getSeverityDescription,
+    getUpdateDetails,
+    getUpdateSeverity,
+} from "./machines-api";
+import { SEVERITY_COLORS } from "./updates-table";
+
+const _ = cockpit.gettext;
+
+/**
+ * A host whose pending updates are included in the advisory view
+ */
+export interface AdvisoryHost {
+    key: string;
+    label: string;
+    packages: PackageUpdate[];
+}
+
+/**
+ * An advisory (or a bare CVE when the update has no advisory ID) across the fleet
+ */
+interface Advisory {
+    id: string;
+    severity: UpdateSeverity;
+    cves: string[];
+    url: string | null;
+    /** Affected host key -> package IDs fixing the advisory there */
+    hosts: Map<string, string[]>;
+}
+
+/**
+ * Group update details from every host by advisory ID, or by CVE when there is none
+ */
+const buildAdvisories = (hosts: AdvisoryHost[], details: Record<string, UpdateDetail[]>): Advisory[] => {
+    const advisories = new Map<string, Advisory>();
+
+    for (const host of hosts) {
+        const packages = new Map(host.packages.map(pkg => [pkg.id, pkg]));
+
+        for (const detail of details[host.key] || []) {
+            const ids = detail.advisories.length > 0 ? detail.advisories : detail.cves;
+            const severity = getUpdateSeverity(packages.get(detail.packageId)?.info ?? 0);
+
+            for (const id of ids) {
+                let advisory = advisories.get(id);
+                if (!advisory) {
+                    advisory = { id, severity, cves: [], url: null, hosts: new Map() };
+                    advisories.set(id, advisory);
+                }
+
+                if (UPDATE_SEVERITIES.indexOf(severity) < UPDATE_SEVERITIES.indexOf(advisory.severity)) {
+                    advisory.severity = severity;
+                }
+                advisory.cves = [...new Set([...advisory.cves, ...detail.cves])];
+                advisory.url = advisory.url || detail.vendorUrls[0] || detail.cveUrls[0] || null;
+
+                const hostPackages = advisory.hosts.get(host.key) || [];
+                if (!hostPackages.includes(detail.packageId)) {
+                    advisory.hosts.set(host.key, [...hostPackages, detail.packageId]);
+                }
+            }
+        }
+    }
+
+    return [...advisories.values()].sort((a, b) =>
+        UPDATE_SEVERITIES.indexOf(a.severity) - UPDATE_SEVERITIES.indexOf(b.severity) || b.id.localeCompare(a.id)
+    );
+};
+
+/**
+ * Fleet-wide list of security advisories and CVEs with the hosts they affect
+ */
+export const AdvisoriesView = ({
+    hosts,
+    onApply,
+    isDisabled,
+}: {
+    hosts: AdvisoryHost[];
+    onApply: (advisory: string, packages: Map<string, string[]>) => void;
+    isDisabled: boolean;
+}) => {
+    const [details, setDetails] = useState<Record<string, UpdateDetail[]>>({});
+    const [errors, setErrors] = useState<Record<string, string>>({});
+    const [loading, setLoading] = useState(false);
+    const [filter, setFilter] = useState("");
+
+    const labels = useMemo(() => new Map(hosts.map(host => [host.key, host.label])), [hosts]);
+
+    // Only re-query on its own when the set of pending packages changes
+    const packageKey = hosts.map(host => `${host.key}:${host.packages.map(pkg => pkg.id).join(",")}`).join("|");
+    const loadedKey = useRef<string | null>(null);
+    // Results of a load started before the latest one are dropped
+    const lastRequest = useRef(0);
+
+    const loadDetails = useCallback(async () => {
+        const request = ++lastRequest.current;
+        setLoading(true);
+        const nextDetails: Record<string, UpdateDetail[]> = {};
+        const nextErrors: Record<string, string> = {};
+
+        await Promise.all(hosts.map(async host => {
+            try {
+                nextDetails[host.key] = await getUpdateDetails(host.key, host.packages.map(pkg => pkg.id));
+            } catch (error) {
+                nextErrors[host.key] = (error as Error).message;
+            }
+        }));
+
+        if (request !== lastRequest.current) {
+            return;
+        }
+        setDetails(nextDetails);
+        setErrors(nextErrors);
+        setLoading(false);
+    }, [hosts]);
+
+    useEffect(() => {
+        if (loadedKey.current === packageKey) {
+            return;
+        }
+        loadedKey.current = packageKey;
+        loadDetails();
+    }, [packageKey, loadDetails]);
+
+    const advisories = useMemo(() => buildAdvisories(hosts, details), [hosts, details]);
+
+    const term = filter.trim().toLowerCase();
+    const filtered = term
+        ? advisories.filter(advisory =>
+            advisory.id.toLowerCase().includes(term) ||
+            advisory.cves.some(cve => cve.toLowerCase().includes(term)) ||
+            [...advisory.hosts.keys()].some(key => (labels.get(key) || key).toLowerCase().includes(term))
+        )
+        : advisories;
+
+    return (
+        <>
+            <Toolbar>
+                <ToolbarContent>
+                    <ToolbarItem>
+                        <SearchInput
+                            placeholder={_("Filter by advisory, CVE or machine")}
+                            value={filter}
+                            onChange={(_event, value) => setFilter(value)}
+                            onClear={() => setFilter("")}
+                        />
+                    </ToolbarItem>
+                    <ToolbarItem>
+                        <Button
+                            variant="secondary"
+                            icon={<SyncAltIcon />}
+                            onClick={loadDetails}
+                            isLoading={loading}
+                            isDisabled={loading}
+                        >
+                            {_("Reload")}
+                        </Button>
+                    </ToolbarItem>
+                </ToolbarContent>
+            </Toolbar>
+
+            {Object.entries(errors).map(([host, error]) => (
+                <Alert
+                    key={host}
+                    isInline
+                    isPlain
+                    variant="warning"
+                    title={cockpit.format(_("Could not read advisories from $0: $1"), labels.get(host) || host, error)}
+                />
+            ))}
+
+            {loading && advisories.length === 0 ? (
+                <EmptyState titleText={_("Loading advisories...")} icon={Spinner} />
+            ) : filtered.length === 0 ? (
+                <EmptyState headingLevel="h3" titleText={_("No advisories")} icon={SecurityIcon}>
+                    <EmptyStateBody>
+                        {term
+                            ? _("No advisory or CVE matches the filter.")
+                            : _("None of the pending updates reference an advisory or CVE.")}
+                    </EmptyStateBody>
+                </EmptyState>
+            ) : (
+                <Table aria-label={_("Security advisories")} variant="compact">
+                    <Thead>
+                        <Tr>
+                            <Th>{_("Advisory")}</Th>
+                            <Th>{_("Severity")}</Th>
+                            <Th>{_("CVEs")}</Th>
+                            <Th>{_("Affected machines")}</Th>
+                            <Th screenReaderText={_("Actions")} />
+                        </Tr>
+                    </Thead>
+                    <Tbody>
+                        {filtered.map(advisory => (
+                            <Tr key={advisory.id}>
+                                <Td dataLabel={_("Advisory")}>
+                                    {advisory.url
+                                        ? <a href={advisory.url} target="_blank" rel="noopener noreferrer">{advisory.id}</a>
+                                        : advisory.id}
+                                </Td>
+                                <Td dataLabel={_("Severity")}>
+                                    <Label isCompact color={SEVERITY_COLORS[advisory.severity]}>
+                                        {getSeverityDescription(advisory.severity)}
+                                    </Label>
+                                </Td>
+                                <Td dataLabel={_("CVEs")}>
+                                    <LabelGroup numLabels={3} isCompact>
+                                        {advisory.cves.map(cve => (
+                                            <Label key={cve} isCompact variant="outline">{cve}</Label>
+                                        ))}
+                                    </LabelGroup>
+                                </Td>
+                                <Td dataLabel={_("Affected machines")}>
+                                    {[...advisory.hosts.keys()].map(key => labels.get(key) || key).join(", ")}
+                                </Td>
+                                <Td isActionCell>
+                                    <Button
+                                        variant="secondary"
+                                        size="sm"
+                                        onClick={() => onApply(advisory.id, advisory.hosts)}
+                                        isDisabled={isDisabled}
+                                    >
+                                        {cockpit.format(_("Apply on $0 machines"), advisory.hosts.size)}
+                                    </Button>
+                                </Td>
+                            </Tr>
+                        ))}
+                    </Tbody>
+                </Table>
+            )}
+        </>
+    );
+};
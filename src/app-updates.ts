@@ -0,0 +1,128 @@
+/*
+ * This file is part of Cockpit Machines Dashboard.
+ *
+ * Copyright (C) 2026
+ *
+ * Cockpit is free software; you can redistribute it and/or modify it
+ * under the terms of the GNU Lesser General Public License as published by
+ * the Free Software Foundation; either version 2.1 of the License, or
+ * (at your option) any later version.
+ */
+
+import cockpit from "cockpit";
+
+const _ = cockpit.gettext;
+
+/**
+ * Application package formats updated next to the system packages
+ */
+export const APP_SOURCES = ["flatpak", "snap"] as const;
+
+export type AppSource = typeof APP_SOURCES[number];
+
+/**
+ * A pending Flatpak or Snap update
+ */
+export interface AppUpdate {
+    source: AppSource;
+    /** Flatpak application ID or snap name */
+    id: string;
+    version: string;
+    /** Flatpak remote or snap publisher */
+    origin: string;
+}
+
+/**
+ * Shell script listing pending updates of each tool that is installed,
+ * each under a "[tool]" line; a tool that fails, e.g. snap with snapd
+ * stopped, prints "[failed]" without failing the others
+ */
+const LIST_SCRIPT = `
+if command -v flatpak >/dev/null 2>&1; then
+    echo "[flatpak]"
+    flatpak remote-ls --updates --columns=application,version,origin 2>/dev/null || echo "[failed]"
+fi
+if command -v snap >/dev/null 2>&1; then
+    echo "[snap]"
+    snap refresh --list 2>/dev/null || echo "[failed]"
+fi
+exit 0
+`;
+
+function spawnOptions(host: string, superuser: string) {
+    return host === "localhost"
+        ? { superuser, err: "message", environ: ["LC_ALL=C"] }
+        : { host, superuser, err: "message", environ: ["LC_ALL=C"] };
+}
+
+/**
+ * List the pending Flatpak and Snap updates of a host
+ * Hosts without either tool report no updates, a tool that failed reports none
+ */
+export async function listAppUpdates(host: string): Promise<AppUpdate[]> {
+    const output: string = await cockpit.spawn(["/bin/sh", "-c", LIST_SCRIPT], spawnOptions(host, "try"));
+    const updates: AppUpdate[] = [];
+    let source: AppSource | null = null;
+
+    for (const line of output.split("\n")) {
+        const section = line.match(/^\[(\w+)\]$/);
+        if (section?.[1] === "failed") {
+            console.warn(`Failed to list ${source} updates of ${host}`);
+            continue;
+        }
+        if (section) {
+            source = (APP_SOURCES as readonly string[]).includes(section[1]) ? section[1] as AppSource : null;
+            continue;
+        }
+        if (!source || !line.trim()) continue;
+
+        if (source === "flatpak") {
+            // application<TAB>version<TAB>origin
+            const [id, version = "", origin = ""] = line.split("\t");
+            updates.push({ source, id, version, origin });
+        } else if (!line.startsWith("Name ")) {
+            // Name Version Rev Size Publisher Notes
+            const [id, version = "", , , origin = ""] = line.trim().split(/\s+/);
+            updates.push({ source, id, version, origin });
+        }
+    }
+
+    return updates;
+}
+
+/**
+ * Install the given Flatpak and Snap updates; resolves false when cancelled
+ * Aborting `signal` skips the tools that did not start yet
+ */
+export async function installAppUpdates(
+    host: string,
+    updates: AppUpdate[],
+    onProgress?: (percent: number, status: string) => void,
+    signal?: AbortSignal
+): Promise<boolean> {
+    const sources = APP_SOURCES.filter(source => updates.some(update => update.source === source));
+
+    for (const [index, source] of sources.entries()) {
+        if (signal?.aborted) {
+            return false;
+        }
+
+        const ids = updates.filter(update => update.source === source).map(update => update.id);
+        const command = source === "flatpak"
+            ? ["flatpak", "update", "-y", "--noninteractive", ...ids]
+            : ["snap", "refresh", ...ids];
+
+        onProgress?.(Math.round(index * 100 / sources.length),
+                     cockpit.format(_("Updating $0 applications..."), getAppSourceDescription(source)));
+        await cockpit.spawn(command, spawnOptions(host, "require"));
+    }
+
+    return true;
+}
+
+/**
+ * Get a human readable name for an application source
+ */
+export function getAppSourceDescription(source: AppSource): string {
+    return source === "flatpak" ? _("Flatpak") : _("Snap");
+}
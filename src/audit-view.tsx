@@ -0,0 +1,254 @@
+/*
+ * This file is part of Cockpit Machines Dashboard.
+ *
+ * Copyright (C) 2026
+ *
+ * Cockpit is free software; you can redistribute it and/or modify it
+ * under the terms of the GNU Lesser General Public License as published by
+ * the Free Software Foundation; either version 2.1 of the License, or
+ * (at your option) any later version.
+ */
+
+import cockpit from "cockpit";
+import React, { useState, useEffect, useCallback } from "react";
+
+import {
+    Alert,
+    Button,
+    EmptyState,
+    EmptyStateBody,
+    FormSelect,
+    FormSelectOption,
+    Label,
+    SearchInput,
+    Spinner,
+    Toolbar,
+    ToolbarContent,
+    ToolbarGroup,
+    ToolbarItem,
+} from "@patternfly/react-core";
+import { DownloadIcon, SyncAltIcon } from "@patternfly/react-icons";
+import {
+    Table,
+    Tbody,
+    Td,
+    Th,
+    Thead,
+    Tr,
+} from "@patternfly/react-table";
+
+import {
+    type AuditAction,
+    type AuditEntry,
+    AUDIT_LOG_PATH,
+    formatAuditLog,
+    getAuditActionDescription,
+    readAuditLog,
+} from "./audit";
+import { getPolicyDescription } from "./machines-api";
+
+const _ = cockpit.gettext;
+
+const ACTIONS: AuditAction[] = [
+    "refresh",
+    "install",
+    "install-security",
+    "install-selected",
+    "reboot",
+    "cancel-reboot",
+    "enable-repo",
+    "disable-repo",
+    "edit-hooks",
+    "edit-holds",
+];
+
+/**
+ * Offer text content as a file download
+ */
+const download = (content: string, filename: string, type: string) => {
+    const url = URL.createObjectURL(new Blob([content], { type }));
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = filename;
+    link.click();
+    URL.revokeObjectURL(url);
+};
+
+/**
+ * Filterable view of the dashboard audit log with export
+ */
+export const AuditView = () => {
+    const [entries, setEntries] = useState<AuditEntry[] | null>(null);
+    const [error, setError] = useState<string | null>(null);
+    const [search, setSearch] = useState("");
+    const [action, setAction] = useState<AuditAction | "">("");
+    const [result, setResult] = useState<AuditEntry["result"] | "">("");
+
+    const load = useCallback(() => {
+        setError(null);
+        readAuditLog()
+            .then(setEntries)
+            .catch(err => {
+                setEntries([]);
+                setError((err as Error).message || _("Failed to read the audit log"));
+            });
+    }, []);
+
+    useEffect(() => {
+        load();
+    }, [load]);
+
+    const term = search.trim().toLowerCase();
+    const filtered = (entries || []).filter(entry =>
+        (!action || entry.action === action) &&
+        (!result || entry.result === result) &&
+        (!term ||
+            entry.host.toLowerCase().includes(term) ||
+            entry.user.toLowerCase().includes(term) ||
+            entry.packages.some(pkg => pkg.toLowerCase().includes(term)) ||
+            (entry.detail || "").toLowerCase().includes(term))
+    );
+
+    const exportAs = (format: "jsonl" | "csv") => {
+        const stamp = new Date().toISOString().slice(0, 10);
+        download(formatAuditLog(filtered, format), `machines-dashboard-audit-${stamp}.${format}`,
+                 format === "csv" ? "text/csv" : "application/x-ndjson");
+    };
+
+    return (
+        <>
+            <Toolbar>
+                <ToolbarContent>
+                    <ToolbarGroup variant="filter-group">
+                        <ToolbarItem>
+                            <SearchInput
+                                placeholder={_("Filter by machine, user or package")}
+                                value={search}
+                                onChange={(_event, value) => setSearch(value)}
+                                onClear={() => setSearch("")}
+                            />
+                        </ToolbarItem>
+                        <ToolbarItem>
+                            <FormSelect
+                                value={action}
+                                onChange={(_event, value) => setAction(value as AuditAction | "")}
+                                aria-label={_("Action")}
+                            >
+                                <FormSelectOption value="" label={_("All actions")} />
+                                {ACTIONS.map(a => (
+                                    <FormSelectOption key={a} value={a} label={getAuditActionDescription(a)} />
+                                ))}
+                            </FormSelect>
+                        </ToolbarItem>
+                        <ToolbarItem>
+                            <FormSelect
+                                value={result}
+                                onChange={(_event, value) => setResult(value as AuditEntry["result"] | "")}
+                                aria-label={_("Result")}
+                            >
+                                <FormSelectOption value="" label={_("All results")} />
+                                <FormSelectOption value="success" label={_("Success")} />
+                                <FormSelectOption value="failure" label={_("Failure")} />
+                                <FormSelectOption value="cancelled" label={_("Cancelled")} />
+                                <FormSelectOption value="skipped" label={_("Skipped")} />
+                            </FormSelect>
+                        </ToolbarItem>
+                    </ToolbarGroup>
+                    <ToolbarGroup variant="action-group">
+                        <ToolbarItem>
+                            <Button variant="secondary" icon={<SyncAltIcon />} onClick={load}>
+                                {_("Reload")}
+                            </Button>
+                        </ToolbarItem>
+                        <ToolbarItem>
+                            <Button
+                                variant="secondary"
+                                icon={<DownloadIcon />}
+                                onClick={() => exportAs("csv")}
+                                isDisabled={filtered.length === 0}
+                            >
+                                {_("Export CSV")}
+                            </Button>
+                        </ToolbarItem>
+                        <ToolbarItem>
+                            <Button
+                                variant="secondary"
+                                icon={<DownloadIcon />}
+                                onClick={() => exportAs("jsonl")}
+                                isDisabled={filtered.length === 0}
+                            >
+                                {_("Export JSON")}
+                            </Button>
+                        </ToolbarItem>
+                    </ToolbarGroup>
+                </ToolbarContent>
+            </Toolbar>
+
+            {error && (
+                <Alert
+                    isInline
+                    variant="warning"
+                    title={cockpit.format(_("Could not read $0: $1"), AUDIT_LOG_PATH, error)}
+                />
+            )}
+
+            {entries === null ? (
+                <EmptyState titleText={_("Loading audit log...")} icon={Spinner} />
+            ) : filtered.length === 0 ? (
+                <EmptyState headingLevel="h3" titleText={_("No audit records")}>
+                    <EmptyStateBody>
+                        {entries.length > 0
+                            ? _("No record matches the filters.")
+                            : _("Actions taken from this dashboard will be recorded here.")}
+                    </EmptyStateBody>
+                </EmptyState>
+            ) : (
+                <Table aria-label={_("Audit log")} variant="compact">
+                    <Thead>
+                        <Tr>
+                            <Th>{_("Time")}</Th>
+                            <Th>{_("User")}</Th>
+                            <Th>{_("Machine")}</Th>
+                            <Th>{_("Action")}</Th>
+                            <Th>{_("Packages")}</Th>
+                            <Th>{_("Result")}</Th>
+                        </Tr>
+                    </Thead>
+                    <Tbody>
+                        {filtered.map((entry, index) => (
+                            <Tr key={`${entry.timestamp}-${entry.host}-${index}`}>
+                                <Td dataLabel={_("Time")}>{new Date(entry.timestamp).toLocaleString()}</Td>
+                                <Td dataLabel={_("User")}>{entry.user}</Td>
+                                <Td dataLabel={_("Machine")}>{entry.host}</Td>
+                                <Td dataLabel={_("Action")}>
+                                    {getAuditActionDescription(entry.action)}
+                                    {entry.policy && entry.action === "install" &&
+                                        <span className="machine-details"> ({getPolicyDescription(entry.policy)})</span>}
+                                </Td>
+                                <Td dataLabel={_("Packages")}>
+                                    <span title={entry.packages.join("\n")}>
+                                        {entry.packages.length > 0 ? entry.packages.length : "-"}
+                                    </span>
+                                </Td>
+                                <Td dataLabel={_("Result")}>
+                                    <Label
+                                        isCompact
+                                        color={entry.result === "success" ? "green"
+                                            : entry.result === "cancelled" ? "grey"
+                                                : entry.result === "skipped" ? "orange" : "red"}
+                                        title={entry.detail}
+                                    >
+                                        {entry.result === "success" ? _("Success")
+                                            : entry.result === "cancelled" ? _("Cancelled")
+                                                : entry.result === "skipped" ? _("Skipped") : _("Failure")}
+                                    </Label>
+                                    {entry.detail && <span className="machine-details"> {entry.detail}</span>}
+                                </Td>
+                            </Tr>
+                        ))}
+                    </Tbody>
+                </Table>
+            )}
+        </>
+    );
+};
@@ -0,0 +1,190 @@
+/*
+ * This file is part of Cockpit Machines Dashboard.
+ *
+ * Copyright (C) 2026
+ *
+ * Cockpit is free software; you can redistribute it and/or modify it
+ * under the terms of the GNU Lesser General Public License as published by
+ * the Free Software Foundation; either version 2.1 of the License, or
+ * (at your option) any later version.
+ */
+
+import cockpit from "cockpit";
+
+import { type InstallPolicy } from "./machines-api";
+
+const _ = cockpit.gettext;
+
+/**
+ * Audit log on the Cockpit host, one JSON object per line
+ */
+export const AUDIT_LOG_PATH = "/var/log/cockpit-machines-dashboard/audit.jsonl";
+
+/**
+ * Actions recorded in the audit log
+ */
+export type AuditAction =
+    | "refresh"
+    | "install"
+    | "install-security"
+    | "install-selected"
+    | "reboot"
+    | "cancel-reboot"
+    | "enable-repo"
+    | "disable-repo"
+    | "edit-hooks"
+    | "edit-holds";
+
+/**
+ * A single audit log record
+ */
+export interface AuditEntry {
+    timestamp: string;
+    user: string;
+    action: AuditAction;
+    /** Machine key, "*" for settings applying to every machine */
+    host: string;
+    packages: string[];
+    /** "skipped" when the pre-flight checks refused the install */
+    result: "success" | "failure" | "cancelled" | "skipped";
+    /** Severity threshold of policy installs */
+    policy?: InstallPolicy;
+    detail?: string;
+}
+
+/**
+ * Get a human readable label for an audit action
+ */
+export function getAuditActionDescription(action: AuditAction): string {
+    switch (action) {
+    case "refresh":
+        return _("Refresh");
+    case "install":
+        return _("Install updates");
+    case "install-security":
+        return _("Install security updates");
+    case "install-selected":
+        return _("Install selected packages");
+    case "reboot":
+        return _("Reboot");
+    case "cancel-reboot":
+        return _("Cancel reboot");
+    case "enable-repo":
+        return _("Enable repository");
+    case "disable-repo":
+        return _("Disable repository");
+    case "edit-hooks":
+        return _("Edit update hooks");
+    case "edit-holds":
+        return _("Edit package holds");
+    default:
+        return action;
+    }
+}
+
+let currentUser: Promise<string> | null = null;
+
+const getCurrentUser = (): Promise<string> => {
+    if (!currentUser) {
+        currentUser = (cockpit.user() as Promise<cockpit.UserInfo>)
+            .then((info: cockpit.UserInfo) => info.name)
+            .catch(() => "unknown");
+    }
+    return currentUser;
+};
+
+// Appends are serialized so concurrent actions don't overwrite each other
+let writeQueue: Promise<boolean> = Promise.resolve(true);
+
+// Callbacks told about records that could not be written
+const errorListeners = new Set<(error: Error, entry: Omit<AuditEntry, "timestamp" | "user">) => void>();
+
+/**
+ * Subscribe to audit log write failures
+ * Returns a function removing the subscription
+ */
+export function subscribeAuditErrors(
+    callback: (error: Error, entry: Omit<AuditEntry, "timestamp" | "user">) => void
+): () => void {
+    errorListeners.add(callback);
+    return () => {
+        errorListeners.delete(callback);
+    };
+}
+
+/**
+ * Append a record to the audit log
+ * Resolves to false when the record could not be written, which is also
+ * reported to every subscribeAuditErrors callback.
+ */
+export function recordAudit(entry: Omit<AuditEntry, "timestamp" | "user">): Promise<boolean> {
+    const write = async () => {
+        const record: AuditEntry = {
+            timestamp: new Date().toISOString(),
+            user: await getCurrentUser(),
+            ...entry,
+        };
+
+        await cockpit.spawn(["mkdir", "-p", AUDIT_LOG_PATH.replace(/\/[^/]*$/, "")], { superuser: "try", err: "message" });
+        const file = cockpit.file(AUDIT_LOG_PATH, { superuser: "try" });
+        try {
+            await file.modify((content: string | null) => (content || "") + JSON.stringify(record) + "\n");
+        } finally {
+            file.close();
+        }
+    };
+
+    writeQueue = writeQueue.then(write).then(() => true, (error: Error) => {
+        console.error("Failed to write audit log:", error);
+        errorListeners.forEach(listener => listener(error, entry));
+        return false;
+    });
+    return writeQueue;
+}
+
+/**
+ * Read every record of the audit log, newest first
+ */
+export async function readAuditLog(): Promise<AuditEntry[]> {
+    const file = cockpit.file(AUDIT_LOG_PATH, { superuser: "try" });
+    try {
+        const content = await file.read();
+        const entries: AuditEntry[] = [];
+        for (const line of (content || "").split("\n")) {
+            if (!line.trim()) continue;
+            try {
+                entries.push(JSON.parse(line));
+            } catch {
+                console.warn("Skipping malformed audit log line:", line);
+            }
+        }
+        return entries.reverse();
+    } finally {
+        file.close();
+    }
+}
+
+const csvField = (value: string): string =>
+    /[",\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+
+/**
+ * Serialize audit records as JSON lines or CSV
+ */
+export function formatAuditLog(entries: AuditEntry[], format: "jsonl" | "csv"): string {
+    if (format === "jsonl") {
+        return entries.map(entry => JSON.stringify(entry)).join("\n") + "\n";
+    }
+
+    const header = ["timestamp", "user", "action", "policy", "host", "packages", "result", "detail"];
+    const rows = entries.map(entry => [
+        entry.timestamp,
+        entry.user,
+        entry.action,
+        entry.policy || "",
+        entry.host,
+        entry.packages.join(" "),
+        entry.result,
+        entry.detail || "",
+    ].map(csvField).join(","));
+    return [header.join(","), ...rows].join("\n") + "\n";
+}
@@ -0,0 +1,334 @@
+/*
+ * This file is part of Cockpit Machines Dashboard.
+ *
+ * Copyright (C) 2026
+ *
+ * Cockpit is free software; you can redistribute it and/or modify it
+ * under the terms of the GNU Lesser General Public License as published by
+ * the Free Software Foundation; either version 2.1 of the License, or
+ * (at your option) any later version.
+ */
+
+/**
+ * Options controlling a bulk run
+ */
+export interface BulkRunOptions {
+    /** Maximum number of hosts processed at the same time */
+    concurrency: number;
+    /** Stop starting new hosts as soon as one host fails */
+    stopOnFailure: boolean;
+    /** "parallel" runs every host through one queue, "waves" does a canary rollout */
+    mode: "parallel" | "waves";
+    /** Number of hosts in the first (canary) wave */
+    canaryCount: number;
+    /** Number of hosts in each following wave */
+    waveSize: number;
+    /** Seconds to wait between two waves */
+    pauseSeconds: number;
+}
+
+/**
+ * Position of a rolling update within its waves
+ */
+export interface WaveProgress {
+    index: number;
+    count: number;
+    isCanary: boolean;
+    phase: "updating" | "verifying" | "pausing";
+}
+
+/**
+ * Aggregate progress of a bulk run
+ */
+export interface BulkProgress {
+    total: number;
+    succeeded: string[];
+    failed: string[];
+    skipped: string[];
+    running: string[];
+    stopping: boolean;
+    wave?: WaveProgress;
+    /** Set when a rollout halted because a wave had failures */
+    haltReason?: "canary" | "wave";
+}
+
+/**
+ * Handle to a bulk run in progress
+ */
+export interface BulkRun {
+    /** Resolves with the final progress once every started host has settled, or on abort */
+    done: Promise<BulkProgress>;
+    /** Let the running hosts finish, but don't start any new ones */
+    stop(): void;
+    /** Stop starting new hosts, signal the running ones to abort and resolve right away */
+    abort(): void;
+}
+
+/**
+ * Outcome of a job on a single host: true on success, "skipped" when the
+ * job decided not to run on the host
+ */
+export type BulkJobResult = boolean | "skipped";
+
+/**
+ * A job run for a single host
+ */
+export type BulkJob = (host: string, signal: AbortSignal) => Promise<BulkJobResult>;
+
+/**
+ * A health check run on a host after its wave; resolves to true when healthy
+ */
+export type HealthCheck = (host: string) => Promise<boolean>;
+
+export const DEFAULT_BULK_OPTIONS: BulkRunOptions = {
+    concurrency: 4,
+    stopOnFailure: false,
+    mode: "parallel",
+    canaryCount: 1,
+    waveSize: 5,
+    pauseSeconds: 60,
+};
+
+/**
+ * Run a job on a list of hosts with a bounded number of hosts in flight
+ */
+export function runBulkJobs(
+    hosts: string[],
+    job: BulkJob,
+    options: BulkRunOptions,
+    onProgress?: (progress: BulkProgress) => void
+): BulkRun {
+    const controller = new AbortController();
+    const queue = [...hosts];
+    const progress: BulkProgress = {
+        total: hosts.length,
+        succeeded: [],
+        failed: [],
+        skipped: [],
+        running: [],
+        stopping: false,
+    };
+
+    let finished = false;
+
+    const report = () => {
+        if (finished) return;
+        onProgress?.({
+            ...progress,
+            succeeded: [...progress.succeeded],
+            failed: [...progress.failed],
+            skipped: [...progress.skipped],
+            running: [...progress.running],
+        });
+    };
+
+    const stop = () => {
+        if (progress.stopping) return;
+        progress.stopping = true;
+        progress.skipped.push(...queue.splice(0));
+        report();
+    };
+
+    // Each worker pulls hosts off the shared queue until it is empty
+    const worker = async () => {
+        while (queue.length > 0 && !progress.stopping) {
+            const host = queue.shift()!;
+            progress.running.push(host);
+            report();
+
+            let result: BulkJobResult = false;
+            try {
+                result = await job(host, controller.signal);
+            } catch (error) {
+                console.error(`Bulk job failed on ${host}:`, error);
+            }
+
+            progress.running = progress.running.filter(h => h !== host);
+            (result === "skipped" ? progress.skipped : result ? progress.succeeded : progress.failed).push(host);
+            report();
+
+            // A skipped host is not a failure
+            if (!result && options.stopOnFailure) {
+                stop();
+            }
+        }
+    };
+
+    const aborted = new Promise<void>(resolve => {
+        controller.signal.addEventListener("abort", () => resolve());
+    });
+
+    const workerCount = Math.max(1, Math.min(options.concurrency, hosts.length));
+    const done = Promise.race([
+        Promise.all(Array.from({ length: workerCount }, worker)),
+        aborted,
+    ]).then(() => {
+        report();
+        finished = true;
+        return { ...progress, running: [...progress.running] };
+    });
+
+    report();
+
+    return {
+        done,
+        stop,
+        abort: () => {
+            stop();
+            controller.abort();
+        },
+    };
+}
+
+/**
+ * Split hosts into a canary wave followed by waves of a fixed size
+ */
+export function planWaves(hosts: string[], canaryCount: number, waveSize: number): string[][] {
+    const waves: string[][] = [];
+    const canaries = hosts.slice(0, Math.max(0, canaryCount));
+    if (canaries.length > 0) {
+        waves.push(canaries);
+    }
+
+    const size = Math.max(1, waveSize);
+    for (let i = canaries.length; i < hosts.length; i += size) {
+        waves.push(hosts.slice(i, i + size));
+    }
+    return waves;
+}
+
+/**
+ * Run a job on hosts in waves, starting with canaries
+ *
+ * After each wave every host that succeeded is health checked. Any failed
+ * job or failed health check halts the rollout and skips the remaining waves.
+ */
+export function runRollout(
+    hosts: string[],
+    job: BulkJob,
+    healthCheck: HealthCheck,
+    options: BulkRunOptions,
+    onProgress?: (progress: BulkProgress) => void
+): BulkRun {
+    const controller = new AbortController();
+    const waves = planWaves(hosts, options.canaryCount, options.waveSize);
+    const progress: BulkProgress = {
+        total: hosts.length,
+        succeeded: [],
+        failed: [],
+        skipped: [],
+        running: [],
+        stopping: false,
+    };
+
+    let current: BulkRun | null = null;
+    let wakeUp: (() => void) | null = null;
+    let finished = false;
+
+    const report = (wave?: BulkProgress) => {
+        if (finished) return;
+        onProgress?.({
+            ...progress,
+            succeeded: [...progress.succeeded, ...(wave?.succeeded ?? [])],
+            failed: [...progress.failed, ...(wave?.failed ?? [])],
+            skipped: [...progress.skipped, ...(wave?.skipped ?? [])],
+            running: [...(wave?.running ?? progress.running)],
+        });
+    };
+
+    const skipRemaining = (fromWave: number) => {
+        for (const wave of waves.slice(fromWave)) {
+            progress.skipped.push(...wave);
+        }
+    };
+
+    const pause = (ms: number) => new Promise<void>(resolve => {
+        const timer = window.setTimeout(resolve, ms);
+        wakeUp = () => {
+            window.clearTimeout(timer);
+            resolve();
+        };
+    });
+
+    const stop = () => {
+        if (progress.stopping) return;
+        progress.stopping = true;
+        current?.stop();
+        wakeUp?.();
+        report();
+    };
+
+    const run = async () => {
+        for (let index = 0; index < waves.length; index++) {
+            if (progress.stopping) {
+                skipRemaining(index);
+                break;
+            }
+
+            const hostsInWave = waves[index];
+            const isCanary = index === 0 && options.canaryCount > 0;
+            progress.wave = { index, count: waves.length, isCanary, phase: "updating" };
+            current = runBulkJobs(
+                hostsInWave,
+                job,
+                { ...options, concurrency: Math.min(options.concurrency, hostsInWave.length) },
+                report
+            );
+            const result = await current.done;
+            current = null;
+            if (controller.signal.aborted) return;
+
+            progress.skipped.push(...result.skipped);
+            progress.failed.push(...result.failed);
+
+            // Make sure the updated hosts came back healthy
+            progress.wave = { ...progress.wave, phase: "verifying" };
+            progress.running = result.succeeded;
+            report();
+            const healthy = await Promise.all(result.succeeded.map(host =>
+                healthCheck(host).catch(() => false)
+            ));
+            progress.running = [];
+            result.succeeded.forEach((host, i) => {
+                (healthy[i] ? progress.succeeded : progress.failed).push(host);
+            });
+
+            const waveFailed = result.failed.length > 0 || healthy.includes(false);
+            if (waveFailed) {
+                progress.haltReason = isCanary ? "canary" : "wave";
+                progress.stopping = true;
+                skipRemaining(index + 1);
+                break;
+            }
+
+            if (index < waves.length - 1 && !progress.stopping && options.pauseSeconds > 0) {
+                progress.wave = { ...progress.wave, phase: "pausing" };
+                report();
+                await pause(options.pauseSeconds * 1000);
+                wakeUp = null;
+            }
+        }
+    };
+
+    const aborted = new Promise<void>(resolve => {
+        controller.signal.addEventListener("abort", () => resolve());
+    });
+
+    const done = Promise.race([run(), aborted]).then(() => {
+        report();
+        finished = true;
+        return { ...progress, running: [...progress.running] };
+    });
+
+    report();
+
+    return {
+        done,
+        stop,
+        abort: () => {
+            stop();
+            current?.abort();
+            controller.abort();
+        },
+    };
+}
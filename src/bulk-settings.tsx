@@ -0,0 +1,328 @@
+/*
+ * This file is part of Cockpit Machines Dashboard.
+ *
+ * Copyright (C) 2026
+ *
+ * Cockpit is free software; you can redistribute it and/or modify it
+ * under the terms of the GNU Lesser General Public License as published by
+ * the Free Software Foundation; either version 2.1 of the License, or
+ * (at your option) any later version.
+ */
+
+import cockpit from "cockpit";
+import React from "react";
+
+import {
+    Button,
+    Checkbox,
+    NumberInput,
+    Popover,
+    ToggleGroup,
+    ToggleGroupItem,
+    ToolbarGroup,
+    ToolbarItem,
+} from "@patternfly/react-core";
+
+import { type BulkRunOptions } from "./bulk-runner";
+import { type PreflightOptions } from "./preflight";
+import { type ProbeOptions } from "./probe";
+import { type RecheckOptions } from "./recheck";
+
+const _ = cockpit.gettext;
+
+const MAX_CONCURRENCY = 32;
+const MAX_WAVE_SIZE = 100;
+const MAX_PAUSE_SECONDS = 3600;
+const MAX_RECHECK_MINUTES = 1440;
+const MAX_TIMEOUT_SECONDS = 3600;
+const MAX_DISK_MARGIN_MIB = 100000;
+const MAX_LOAD = 100;
+
+/**
+ * Labelled number input clamped to a range
+ */
+const SettingNumber = ({
+    label,
+    value,
+    min,
+    max,
+    onChange,
+    isDisabled,
+}: {
+    label: string;
+    value: number;
+    min: number;
+    max: number;
+    onChange: (value: number) => void;
+    isDisabled: boolean;
+}) => {
+    const clamp = (n: number) => Math.min(max, Math.max(min, n));
+
+    return (
+        <ToolbarItem>
+            <span className="bulk-option-label">{label}</span>
+            <NumberInput
+                value={value}
+                min={min}
+                max={max}
+                onMinus={() => onChange(clamp(value - 1))}
+                onPlus={() => onChange(clamp(value + 1))}
+                onChange={event => {
+                    const next = Number((event.target as HTMLInputElement).value);
+                    if (!isNaN(next)) {
+                        onChange(clamp(next));
+                    }
+                }}
+                inputAriaLabel={label}
+                widthChars={String(max).length}
+                isDisabled={isDisabled}
+            />
+        </ToolbarItem>
+    );
+};
+
+/**
+ * Toolbar controls for the bulk update options
+ */
+export const BulkSettings = ({
+    options,
+    onChange,
+    isDisabled,
+}: {
+    options: BulkRunOptions;
+    onChange: (options: BulkRunOptions) => void;
+    isDisabled: boolean;
+}) => {
+    const set = <K extends keyof BulkRunOptions>(key: K, value: BulkRunOptions[K]) =>
+        onChange({ ...options, [key]: value });
+
+    return (
+        <ToolbarGroup className="bulk-settings">
+            <ToolbarItem>
+                <ToggleGroup aria-label={_("Bulk update mode")} isCompact>
+                    <ToggleGroupItem
+                        text={_("Parallel")}
+                        buttonId="bulk-mode-parallel"
+                        isSelected={options.mode === "parallel"}
+                        onChange={() => set("mode", "parallel")}
+                        isDisabled={isDisabled}
+                    />
+                    <ToggleGroupItem
+                        text={_("Canary + waves")}
+                        buttonId="bulk-mode-waves"
+                        isSelected={options.mode === "waves"}
+                        onChange={() => set("mode", "waves")}
+                        isDisabled={isDisabled}
+                    />
+                </ToggleGroup>
+            </ToolbarItem>
+            <SettingNumber
+                label={_("Parallel hosts")}
+                value={options.concurrency}
+                min={1}
+                max={MAX_CONCURRENCY}
+                onChange={value => set("concurrency", value)}
+                isDisabled={isDisabled}
+            />
+            {options.mode === "waves" ? (
+                <>
+                    <SettingNumber
+                        label={_("Canaries")}
+                        value={options.canaryCount}
+                        min={0}
+                        max={MAX_WAVE_SIZE}
+                        onChange={value => set("canaryCount", value)}
+                        isDisabled={isDisabled}
+                    />
+                    <SettingNumber
+                        label={_("Wave size")}
+                        value={options.waveSize}
+                        min={1}
+                        max={MAX_WAVE_SIZE}
+                        onChange={value => set("waveSize", value)}
+                        isDisabled={isDisabled}
+                    />
+                    <SettingNumber
+                        label={_("Pause (s)")}
+                        value={options.pauseSeconds}
+                        min={0}
+                        max={MAX_PAUSE_SECONDS}
+                        onChange={value => set("pauseSeconds", value)}
+                        isDisabled={isDisabled}
+                    />
+                </>
+            ) : (
+                <ToolbarItem>
+                    <Checkbox
+                        id="stop-on-failure"
+                        label={_("Stop on first failure")}
+                        isChecked={options.stopOnFailure}
+                        onChange={(_event, checked) => set("stopOnFailure", checked)}
+                        isDisabled={isDisabled}
+                    />
+                </ToolbarItem>
+            )}
+        </ToolbarGroup>
+    );
+};
+
+/**
+ * Toolbar controls for the background update checks
+ */
+export const RecheckSettings = ({
+    options,
+    onChange,
+    probeOptions,
+    onProbeChange,
+}: {
+    options: RecheckOptions;
+    onChange: (options: RecheckOptions) => void;
+    probeOptions: ProbeOptions;
+    onProbeChange: (options: ProbeOptions) => void;
+}) => {
+    const set = <K extends keyof RecheckOptions>(key: K, value: RecheckOptions[K]) =>
+        onChange({ ...options, [key]: value });
+    const setProbe = <K extends keyof ProbeOptions>(key: K, value: ProbeOptions[K]) =>
+        onProbeChange({ ...probeOptions, [key]: value });
+
+    const probeSettings = (
+        <div className="probe-settings">
+            <SettingNumber
+                label={_("Machines checked in parallel")}
+                value={probeOptions.concurrency}
+                min={1}
+                max={MAX_CONCURRENCY}
+                onChange={value => setProbe("concurrency", value)}
+                isDisabled={false}
+            />
+            <SettingNumber
+                label={_("Connect timeout (s)")}
+                value={probeOptions.connectSeconds}
+                min={1}
+                max={MAX_TIMEOUT_SECONDS}
+                onChange={value => setProbe("connectSeconds", value)}
+                isDisabled={false}
+            />
+            <SettingNumber
+                label={_("Cache refresh timeout (s)")}
+                value={probeOptions.refreshSeconds}
+                min={1}
+                max={MAX_TIMEOUT_SECONDS}
+                onChange={value => setProbe("refreshSeconds", value)}
+                isDisabled={false}
+            />
+            <SettingNumber
+                label={_("Update listing timeout (s)")}
+                value={probeOptions.updatesSeconds}
+                min={1}
+                max={MAX_TIMEOUT_SECONDS}
+                onChange={value => setProbe("updatesSeconds", value)}
+                isDisabled={false}
+            />
+        </div>
+    );
+
+    return (
+        <ToolbarGroup className="recheck-settings">
+            <ToolbarItem>
+                <Checkbox
+                    id="recheck-enabled"
+                    label={_("Check automatically")}
+                    isChecked={options.enabled}
+                    onChange={(_event, checked) => set("enabled", checked)}
+                />
+            </ToolbarItem>
+            <SettingNumber
+                label={_("Every (min)")}
+                value={options.intervalMinutes}
+                min={1}
+                max={MAX_RECHECK_MINUTES}
+                onChange={value => set("intervalMinutes", value)}
+                isDisabled={!options.enabled}
+            />
+            <SettingNumber
+                label={_("Stale after (min)")}
+                value={options.staleMinutes}
+                min={1}
+                max={MAX_RECHECK_MINUTES}
+                onChange={value => set("staleMinutes", value)}
+                isDisabled={false}
+            />
+            <ToolbarItem>
+                <Popover headerContent={_("Update checks")} bodyContent={probeSettings}>
+                    <Button variant="link" isInline>{_("Timeouts")}</Button>
+                </Popover>
+            </ToolbarItem>
+        </ToolbarGroup>
+    );
+};
+
+/**
+ * Toolbar controls for the checks run before installing updates
+ */
+export const PreflightSettings = ({
+    options,
+    onChange,
+    isDisabled,
+}: {
+    options: PreflightOptions;
+    onChange: (options: PreflightOptions) => void;
+    isDisabled: boolean;
+}) => {
+    const set = <K extends keyof PreflightOptions>(key: K, value: PreflightOptions[K]) =>
+        onChange({ ...options, [key]: value });
+
+    const checks = (
+        <div className="preflight-settings">
+            <Checkbox
+                id="preflight-disk"
+                label={_("Enough free disk space for the download")}
+                isChecked={options.checkDisk}
+                onChange={(_event, checked) => set("checkDisk", checked)}
+                isDisabled={isDisabled}
+            />
+            <SettingNumber
+                label={_("Extra free space (MiB)")}
+                value={options.diskMarginMiB}
+                min={0}
+                max={MAX_DISK_MARGIN_MIB}
+                onChange={value => set("diskMarginMiB", value)}
+                isDisabled={isDisabled || !options.checkDisk}
+            />
+            <Checkbox
+                id="preflight-busy"
+                label={_("No other package manager running")}
+                isChecked={options.checkBusy}
+                onChange={(_event, checked) => set("checkBusy", checked)}
+                isDisabled={isDisabled}
+            />
+            <SettingNumber
+                label={_("Maximum load per CPU (0 = any)")}
+                value={options.maxLoad}
+                min={0}
+                max={MAX_LOAD}
+                onChange={value => set("maxLoad", value)}
+                isDisabled={isDisabled}
+            />
+        </div>
+    );
+
+    return (
+        <ToolbarGroup className="preflight-toolbar">
+            <ToolbarItem>
+                <Checkbox
+                    id="preflight-enabled"
+                    label={_("Pre-flight checks")}
+                    isChecked={options.enabled}
+                    onChange={(_event, checked) => set("enabled", checked)}
+                    isDisabled={isDisabled}
+                />
+            </ToolbarItem>
+            <ToolbarItem>
+                <Popover headerContent={_("Skip machines unless")} bodyContent={checks}>
+                    <Button variant="link" isInline isDisabled={!options.enabled}>{_("Checks")}</Button>
+                </Popover>
+            </ToolbarItem>
+        </ToolbarGroup>
+    );
+};
@@ -12,7 +12,7 @@
 import './dashboard.scss';
 
 import cockpit from "cockpit";
-import React, { useState, useEffect, useCallback } from "react";
+import React, { useState, useEffect, useCallback, useRef } from "react";
 import { createRoot } from 'react-dom/client';
 
 // PatternFly Components
@@ -37,16 +37,22 @@ import {
     EmptyStateActions,
     EmptyStateBody,
     EmptyStateFooter,
+    ExpandableSection,
     Flex,
     FlexItem,
     Gallery,
+    Label,
     Page,
     PageSection,
     Progress,
     ProgressSize,
+    ProgressVariant,
     Spinner,
     Split,
     SplitItem,
+    Tab,
+    TabTitleText,
+    Tabs,
     Title,
     Toolbar,
     ToolbarContent,
@@ -58,30 +64,102 @@ import {
 // PatternFly Icons
 import {
     CheckCircleIcon,
+    CubesIcon,
     ExclamationCircleIcon,
+    ExclamationTriangleIcon,
+    HistoryIcon,
     InProgressIcon,
+    LockIcon,
     OutlinedClockIcon,
+    PowerOffIcon,
     RedoIcon,
     SecurityIcon,
     ServerIcon,
     SyncAltIcon,
+    TerminalIcon,
 } from "@patternfly/react-icons";
 
 // Local modules
 import {
+    type InstallPolicy,
     type Machine,
+    type ScheduledReboot,
     type UpdateInfo,
+    type UpdateSeverity,
+    UPDATE_SEVERITIES,
+    emptyUpdateInfo,
+    countPolicyUpdates,
+    getSeverityDescription,
     getMachinesList,
     subscribeMachines,
     getUpdatesForHost,
     installUpdatesOnHost,
-    refreshPackageCache,
+    installPackagesOnHost,
     getStateDescription,
-    checkMachineConnection
+    getBackendDescription,
+    checkMachineConnection,
+    rebootHost,
+    cancelReboot,
+    resetBackends,
+    waitForHost
 } from "./machines-api";
+import {
+    type BulkJob,
+    type BulkJobResult,
+    type BulkProgress,
+    type BulkRun,
+    type BulkRunOptions,
+    DEFAULT_BULK_OPTIONS,
+    runBulkJobs,
+    runRollout,
+} from "./bulk-runner";
+import { AdvisoriesView } from "./advisories";
+import { getAuditActionDescription, recordAudit, subscribeAuditErrors } from "./audit";
+import { AuditView } from "./audit-view";
+import { RepositoriesView } from "./repositories";
+import { BulkSettings, PreflightSettings, RecheckSettings } from "./bulk-settings";
+import { HistoryDialog } from "./history-dialog";
+import { type RebootRequest, RebootDialog } from "./reboot-dialog";
+import { type PreviewTarget, PreviewDialog } from "./preview-dialog";
+import { PolicySelect } from "./policy-select";
+import { getAppSourceDescription } from "./app-updates";
+import { type HoldSettings, type HoldsConfig, isHeld, readHolds, syncHolds, writeHolds } from "./holds";
+import { HoldsDialog } from "./holds-dialog";
+import {
+    type HookPhase,
+    type HookRun,
+    type HookScripts,
+    type HooksConfig,
+    describeHookFailure,
+    getHookScripts,
+    readHooks,
+    runHook,
+    writeHooks,
+} from "./hooks";
+import { HookOutputDialog, HooksDialog } from "./hooks-dialog";
+import { HostFactsGroups } from "./host-facts";
+import { readStatusCache, writeStatusCache } from "./status-cache";
+import { closePackageKitClients } from "./packagekit";
+import {
+    type ProbeOptions,
+    DEFAULT_PROBE_OPTIONS,
+    probeMachine,
+    probeMachines,
+} from "./probe";
+import {
+    type RecheckOptions,
+    DEFAULT_RECHECK_OPTIONS,
+    isStale,
+    scheduleRechecks,
+} from "./recheck";
+import { type PreflightOptions, DEFAULT_PREFLIGHT_OPTIONS, runPreflight } from "./preflight";
+import { SEVERITY_COLORS, UpdatesTable } from "./updates-table";
 
 const _ = cockpit.gettext;
 
+// Shared by machines without held packages so their cards don't re-render needlessly
+const NO_HOLDS: string[] = [];
+
 interface MachineWithUpdates extends Machine {
     updates: UpdateInfo;
     updateProgress?: {
@@ -90,14 +168,70 @@ interface MachineWithUpdates extends Machine {
     };
     updating?: boolean;
     selected?: boolean;
+    cancelling?: boolean;
+    lastOutcome?: {
+        /** "incomplete" when the update succeeded but part of it could not be done */
+        status: "cancelled" | "failed" | "skipped" | "incomplete";
+        message?: string;
+        hint?: string;
+        at: Date;
+    };
+    /** Hooks run by the last update */
+    hookRuns?: HookRun[];
+    rebootRequired?: boolean;
+    reboot?: {
+        phase: "scheduled" | "rebooting";
+        at: Date | null;
+    };
 }
 
 interface AlertInfo {
     key: string;
     variant: "success" | "danger" | "warning" | "info";
     title: string;
+    description?: string;
 }
 
+/**
+ * An install waiting for confirmation in the preview dialog
+ */
+interface PendingInstall {
+    title: string;
+    targets: PreviewTarget[];
+    policy: InstallPolicy;
+    run: () => void;
+}
+
+/**
+ * Whether a machine needs a reboot, either reported by the host or after an install from the dashboard
+ */
+const needsReboot = (machine: MachineWithUpdates): boolean =>
+    !!machine.rebootRequired || !!machine.updates.rebootStatus?.needed;
+
+/**
+ * Describe the state of a bulk run for its progress bar
+ */
+const getBulkProgressTitle = (progress: BulkProgress): string => {
+    if (progress.stopping) {
+        return cockpit.format(_("Stopping, waiting for $0 running hosts..."), progress.running.length);
+    }
+    
+    const counts = cockpit.format(_("$0 of $1 hosts done, $2 running, $3 failed"),
+                                  progress.succeeded.length + progress.failed.length,
+                                  progress.total, progress.running.length, progress.failed.length);
+    if (!progress.wave) {
+        return counts;
+    }
+    
+    const wave = progress.wave.isCanary
+        ? cockpit.format(_("Wave $0 of $1 (canary)"), progress.wave.index + 1, progress.wave.count)
+        : cockpit.format(_("Wave $0 of $1"), progress.wave.index + 1, progress.wave.count);
+    const phase = progress.wave.phase === "verifying" ? _("verifying hosts")
+        : progress.wave.phase === "pausing" ? _("pausing before next wave")
+            : _("updating");
+    return `${wave}, ${phase}: ${counts}`;
+};
+
 /**
  * Machine Card Component
  */
@@ -105,15 +239,64 @@ const MachineCard = ({
     machine,
     onRefresh,
     onUpdate,
+    onCancelUpdate,
+    onReboot,
+    onCancelReboot,
+    onShowHistory,
+    onEditHolds,
+    onEditHooks,
+    onShowHookOutput,
     onSelect,
     isSelected,
+    isStale,
+    held,
+    hooks,
 }: {
     machine: MachineWithUpdates;
     onRefresh: (host: string) => void;
-    onUpdate: (host: string, securityOnly?: boolean) => void;
+    onUpdate: (host: string, policy?: InstallPolicy, packageIds?: string[]) => void;
+    onCancelUpdate: (host: string) => void;
+    onReboot: (host: string) => void;
+    onCancelReboot: (host: string) => void;
+    onShowHistory: (host: string) => void;
+    onEditHolds: (host: string) => void;
+    onEditHooks: (host: string) => void;
+    onShowHookOutput: (host: string) => void;
     onSelect: (host: string, selected: boolean) => void;
     isSelected: boolean;
+    isStale: boolean;
+    /** Held package patterns of the machine */
+    held: string[];
+    /** Update hooks of every machine, null until they are read */
+    hooks: HooksConfig | null;
 }) => {
+    const [showPackages, setShowPackages] = useState(false);
+    const [selectedPackages, setSelectedPackages] = useState<Set<string>>(new Set());
+    const [policy, setPolicy] = useState<InstallPolicy>("all");
+    
+    // Drop selections for packages that are no longer pending
+    useEffect(() => {
+        setSelectedPackages(prev => {
+            const pending = new Set(machine.updates.packages.map(pkg => pkg.id));
+            const next = new Set([...prev].filter(id => pending.has(id)));
+            return next.size === prev.size ? prev : next;
+        });
+    }, [machine.updates.packages]);
+    
+    const handlePackageSelect = (packageIds: string[], selected: boolean) => {
+        setSelectedPackages(prev => {
+            const next = new Set(prev);
+            for (const id of packageIds) {
+                if (selected) {
+                    next.add(id);
+                } else {
+                    next.delete(id);
+                }
+            }
+            return next;
+        });
+    };
+    
     const stateClass = machine.state === "connected" ? "machine-connected"
         : machine.state === "failed" ? "machine-failed"
             : "machine-connecting";
@@ -126,9 +309,14 @@ const MachineCard = ({
         : machine.state === "failed" ? <ExclamationCircleIcon />
             : <InProgressIcon />;
     
-    const hasSecurityUpdates = machine.updates.security > 0;
     const hasUpdates = machine.updates.total > 0;
-    const isDisabled = machine.state !== "connected" || machine.updating;
+    const hasAppUpdates = machine.updates.apps.length > 0;
+    const heldUpdates = machine.updates.packages.filter(pkg => isHeld(pkg.name, held));
+    const policyUpdates = countPolicyUpdates(machine.updates, policy, held);
+    const isRebooting = machine.reboot?.phase === "rebooting";
+    const rebootStatus = machine.updates.rebootStatus;
+    const rebootReasons = rebootStatus?.reasons ?? [];
+    const isDisabled = machine.state !== "connected" || machine.updating || isRebooting;
     
     return (
         <Card 
@@ -152,6 +340,16 @@ const MachineCard = ({
                             style={{ backgroundColor: machine.color || "#6a6e73" }}
                         />
                         <span className="machine-label">{machine.label}</span>
+                        {needsReboot(machine) && (
+                            <Tooltip content={rebootReasons.length > 0
+                                ? <div>{rebootReasons.map(reason => <div key={reason}>{reason}</div>)}</div>
+                                : _("Updates installed from this dashboard require a reboot")}
+                            >
+                                <Label isCompact color="orange" icon={<PowerOffIcon />}>
+                                    {_("Reboot required")}
+                                </Label>
+                            </Tooltip>
+                        )}
                     </div>
                 </CardTitle>
             </CardHeader>
@@ -172,35 +370,106 @@ const MachineCard = ({
                             </span>
                         </DescriptionListDescription>
                     </DescriptionListGroup>
+                    {machine.updates.backend && (
+                        <DescriptionListGroup>
+                            <DescriptionListTerm>{_("Package manager")}</DescriptionListTerm>
+                            <DescriptionListDescription className="machine-details">
+                                {getBackendDescription(machine.updates.backend)}
+                            </DescriptionListDescription>
+                        </DescriptionListGroup>
+                    )}
+                    {rebootStatus?.runningKernel && (
+                        <DescriptionListGroup>
+                            <DescriptionListTerm>{_("Kernel")}</DescriptionListTerm>
+                            <DescriptionListDescription className="machine-details">
+                                {rebootStatus.runningKernel}
+                                {rebootStatus.newestKernel && rebootStatus.newestKernel !== rebootStatus.runningKernel &&
+                                    " " + cockpit.format(_("(newest installed: $0)"), rebootStatus.newestKernel)}
+                            </DescriptionListDescription>
+                        </DescriptionListGroup>
+                    )}
+                    {machine.updates.facts && <HostFactsGroups facts={machine.updates.facts} />}
+                    {machine.reboot && (
+                        <DescriptionListGroup>
+                            <DescriptionListTerm>{_("Reboot")}</DescriptionListTerm>
+                            <DescriptionListDescription>
+                                {machine.reboot.phase === "rebooting" ? (
+                                    <span className="machine-status status-connecting">
+                                        <Spinner size="sm" />
+                                        {_("Rebooting, waiting for the machine to come back...")}
+                                    </span>
+                                ) : (
+                                    <span className="machine-status status-connecting">
+                                        <OutlinedClockIcon />
+                                        {cockpit.format(_("Scheduled for $0"), machine.reboot.at?.toLocaleString())}
+                                    </span>
+                                )}
+                            </DescriptionListDescription>
+                        </DescriptionListGroup>
+                    )}
                     <DescriptionListGroup>
                         <DescriptionListTerm>{_("Updates")}</DescriptionListTerm>
                         <DescriptionListDescription>
                             {machine.updates.loading ? (
                                 <Spinner size="sm" />
                             ) : machine.updates.error ? (
-                                <Tooltip content={machine.updates.error}>
+                                <Tooltip content={machine.updates.errorHint
+                                    ? `${machine.updates.error} ${machine.updates.errorHint}`
+                                    : machine.updates.error}>
                                     <span className="machine-status status-failed">
                                         <ExclamationCircleIcon />
                                         {_("Error")}
                                     </span>
                                 </Tooltip>
-                            ) : hasUpdates ? (
+                            ) : hasUpdates || hasAppUpdates ? (
                                 <Flex spaceItems={{ default: 'spaceItemsSm' }}>
-                                    <FlexItem>
-                                        <span className="update-badge update-badge-normal">
-                                            <Badge>{machine.updates.total}</Badge>
-                                            {_("available")}
-                                        </span>
-                                    </FlexItem>
-                                    {hasSecurityUpdates && (
+                                    {hasUpdates && (
                                         <FlexItem>
-                                            <span className="update-badge update-badge-security">
-                                                <SecurityIcon />
-                                                <Badge>{machine.updates.security}</Badge>
-                                                {_("security")}
+                                            <span className="update-badge update-badge-normal">
+                                                <Badge>{machine.updates.total}</Badge>
+                                                {_("available")}
                                             </span>
                                         </FlexItem>
                                     )}
+                                    {UPDATE_SEVERITIES
+                                        .filter(severity => severity !== "normal" && machine.updates.severity[severity] > 0)
+                                        .map(severity => (
+                                            <FlexItem key={severity}>
+                                                <Label
+                                                    isCompact
+                                                    color={SEVERITY_COLORS[severity]}
+                                                    icon={severity === "security" ? <SecurityIcon /> : undefined}
+                                                >
+                                                    {machine.updates.severity[severity]} {getSeverityDescription(severity)}
+                                                </Label>
+                                            </FlexItem>
+                                        ))}
+                                    {heldUpdates.length > 0 && (
+                                        <FlexItem>
+                                            <Tooltip content={heldUpdates.map(pkg => pkg.name).join(", ")}>
+                                                <Label isCompact color="grey" icon={<LockIcon />}>
+                                                    {cockpit.format(_("$0 held"), heldUpdates.length)}
+                                                </Label>
+                                            </Tooltip>
+                                        </FlexItem>
+                                    )}
+                                    {hasAppUpdates && (
+                                        <FlexItem>
+                                            <Tooltip content={
+                                                <div>
+                                                    {machine.updates.apps.map(app => (
+                                                        <div key={`${app.source}-${app.id}`}>
+                                                            {app.id} {app.version} ({getAppSourceDescription(app.source)})
+                                                        </div>
+                                                    ))}
+                                                </div>
+                                            }>
+                                                <Label isCompact color="purple" icon={<CubesIcon />}>
+                                                    {cockpit.format(_("$0 Flatpak/Snap"), machine.updates.apps.length)}
+                                                </Label>
+                                            </Tooltip>
+                                        </FlexItem>
+                                    )}
                                 </Flex>
                             ) : (
                                 <span className="machine-status status-connected">
@@ -210,23 +479,115 @@ const MachineCard = ({
                             )}
                         </DescriptionListDescription>
                     </DescriptionListGroup>
+                    {machine.updates.severity.blocked > 0 && (
+                        <DescriptionListGroup>
+                            <DescriptionListTerm>{_("Blocked")}</DescriptionListTerm>
+                            <DescriptionListDescription>
+                                <span className="machine-status status-connecting">
+                                    <ExclamationTriangleIcon />
+                                    {cockpit.format(_("$0 updates are blocked and will not be installed; this machine is not fully patched"),
+                                                    machine.updates.severity.blocked)}
+                                </span>
+                            </DescriptionListDescription>
+                        </DescriptionListGroup>
+                    )}
                     {machine.updates.lastChecked && (
                         <DescriptionListGroup>
                             <DescriptionListTerm>{_("Last checked")}</DescriptionListTerm>
                             <DescriptionListDescription className="machine-details">
-                                <OutlinedClockIcon /> {machine.updates.lastChecked.toLocaleTimeString()}
+                                <OutlinedClockIcon /> {machine.updates.cached
+                                    ? cockpit.format(_("cached $0 minutes ago"),
+                                                     Math.floor((Date.now() - machine.updates.lastChecked.getTime()) / 60000))
+                                    : machine.updates.lastChecked.toLocaleTimeString()}
+                                {isStale && (
+                                    <Label isCompact color="orange" className="stale-label">{_("Stale")}</Label>
+                                )}
+                            </DescriptionListDescription>
+                        </DescriptionListGroup>
+                    )}
+                    {machine.updates.lastUpdated && (
+                        <DescriptionListGroup>
+                            <DescriptionListTerm>{_("Last updated")}</DescriptionListTerm>
+                            <DescriptionListDescription className="machine-details">
+                                <HistoryIcon /> {machine.updates.lastUpdated.toLocaleDateString()}
                             </DescriptionListDescription>
                         </DescriptionListGroup>
                     )}
                 </DescriptionList>
                 
+                {hasUpdates && !machine.updates.loading && (
+                    <ExpandableSection
+                        className="updates-details"
+                        toggleText={showPackages
+                            ? _("Hide pending updates")
+                            : cockpit.format(_("Show pending updates ($0)"), machine.updates.packages.length)}
+                        onToggle={(_event, expanded) => setShowPackages(expanded)}
+                        isExpanded={showPackages}
+                    >
+                        <UpdatesTable
+                            host={machine.label}
+                            packages={machine.updates.packages}
+                            held={held}
+                            selected={selectedPackages}
+                            onSelect={handlePackageSelect}
+                            isDisabled={isDisabled}
+                        />
+                        {selectedPackages.size > 0 && (
+                            <Button
+                                className="install-selected"
+                                variant="primary"
+                                size="sm"
+                                onClick={() => onUpdate(machine.key, "all", [...selectedPackages])}
+                                isDisabled={isDisabled}
+                            >
+                                {cockpit.format(_("Install selected ($0)"), selectedPackages.size)}
+                            </Button>
+                        )}
+                    </ExpandableSection>
+                )}
+                
                 {machine.updating && machine.updateProgress && (
-                    <Progress
-                        className="update-progress"
-                        value={machine.updateProgress.percent}
-                        title={machine.updateProgress.status}
-                        size={ProgressSize.sm}
-                    />
+                    <Split hasGutter className="update-progress">
+                        <SplitItem isFilled>
+                            <Progress
+                                value={machine.updateProgress.percent}
+                                title={machine.cancelling ? _("Cancelling...") : machine.updateProgress.status}
+                                size={ProgressSize.sm}
+                            />
+                        </SplitItem>
+                        <SplitItem>
+                            <Button
+                                variant="link"
+                                size="sm"
+                                onClick={() => onCancelUpdate(machine.key)}
+                                isDisabled={machine.cancelling}
+                            >
+                                {_("Cancel")}
+                            </Button>
+                        </SplitItem>
+                    </Split>
+                )}
+                
+                {!machine.updating && machine.lastOutcome && (
+                    <Alert
+                        className="update-outcome"
+                        isInline
+                        isPlain
+                        variant={machine.lastOutcome.status === "cancelled" ? "info"
+                            : machine.lastOutcome.status === "failed" ? "danger" : "warning"}
+                        title={machine.lastOutcome.status === "cancelled"
+                            ? cockpit.format(_("Update cancelled at $0"), machine.lastOutcome.at.toLocaleTimeString())
+                            : machine.lastOutcome.status === "skipped"
+                                ? cockpit.format(_("Update skipped at $0: $1"), machine.lastOutcome.at.toLocaleTimeString(),
+                                                 machine.lastOutcome.message)
+                                : machine.lastOutcome.status === "incomplete"
+                                    ? cockpit.format(_("Update incomplete at $0: $1"), machine.lastOutcome.at.toLocaleTimeString(),
+                                                     machine.lastOutcome.message)
+                                    : cockpit.format(_("Update failed at $0: $1"), machine.lastOutcome.at.toLocaleTimeString(),
+                                                     machine.lastOutcome.message)}
+                    >
+                        {machine.lastOutcome.hint}
+                    </Alert>
                 )}
             </CardBody>
             <CardFooter>
@@ -242,39 +603,107 @@ const MachineCard = ({
                             {_("Check")}
                         </Button>
                     </SplitItem>
-                    {hasUpdates && !machine.updating && (
+                    {(hasUpdates || hasAppUpdates) && !machine.updating && (
                         <>
+                            <SplitItem>
+                                <PolicySelect
+                                    policy={policy}
+                                    onChange={setPolicy}
+                                    isDisabled={machine.state !== "connected"}
+                                />
+                            </SplitItem>
                             <SplitItem>
                                 <Button
-                                    variant="primary"
+                                    variant={policy === "security" ? "warning" : "primary"}
                                     size="sm"
-                                    onClick={() => onUpdate(machine.key)}
-                                    isDisabled={machine.state !== "connected"}
+                                    icon={policy === "security" ? <SecurityIcon /> : undefined}
+                                    onClick={() => onUpdate(machine.key, policy)}
+                                    isDisabled={machine.state !== "connected" || policyUpdates === 0}
                                 >
-                                    {_("Update all")}
+                                    {cockpit.format(_("Update ($0)"), policyUpdates)}
                                 </Button>
                             </SplitItem>
-                            {hasSecurityUpdates && (
-                                <SplitItem>
-                                    <Button
-                                        variant="warning"
-                                        size="sm"
-                                        icon={<SecurityIcon />}
-                                        onClick={() => onUpdate(machine.key, true)}
-                                        isDisabled={machine.state !== "connected"}
-                                    >
-                                        {_("Security only")}
-                                    </Button>
-                                </SplitItem>
-                            )}
                         </>
                     )}
+                    <SplitItem>
+                        <Button
+                            variant="link"
+                            size="sm"
+                            icon={<HistoryIcon />}
+                            onClick={() => onShowHistory(machine.key)}
+                            isDisabled={machine.state !== "connected" ||
+                                (!!machine.updates.backend && machine.updates.backend !== "packagekit")}
+                        >
+                            {_("History")}
+                        </Button>
+                    </SplitItem>
+                    <SplitItem>
+                        <Button
+                            variant="link"
+                            size="sm"
+                            icon={<LockIcon />}
+                            onClick={() => onEditHolds(machine.key)}
+                        >
+                            {held.length > 0 ? cockpit.format(_("Holds ($0)"), held.length) : _("Holds")}
+                        </Button>
+                    </SplitItem>
+                    <SplitItem>
+                        <Button
+                            variant="link"
+                            size="sm"
+                            icon={<TerminalIcon />}
+                            onClick={() => onEditHooks(machine.key)}
+                            isDisabled={!hooks}
+                        >
+                            {hooks && machine.key in hooks.machines ? _("Hooks (own)") : _("Hooks")}
+                        </Button>
+                    </SplitItem>
+                    {machine.hookRuns && machine.hookRuns.length > 0 && (
+                        <SplitItem>
+                            <Button
+                                variant="link"
+                                size="sm"
+                                isDanger={machine.hookRuns.some(run => run.exitStatus !== 0)}
+                                onClick={() => onShowHookOutput(machine.key)}
+                            >
+                                {_("Hook output")}
+                            </Button>
+                        </SplitItem>
+                    )}
+                    {machine.reboot?.phase === "scheduled" ? (
+                        <SplitItem>
+                            <Button
+                                variant="link"
+                                size="sm"
+                                onClick={() => onCancelReboot(machine.key)}
+                            >
+                                {_("Cancel reboot")}
+                            </Button>
+                        </SplitItem>
+                    ) : (
+                        <SplitItem>
+                            <Button
+                                variant={machine.rebootRequired ? "warning" : "tertiary"}
+                                size="sm"
+                                icon={<PowerOffIcon />}
+                                onClick={() => onReboot(machine.key)}
+                                isDisabled={isDisabled}
+                            >
+                                {_("Reboot")}
+                            </Button>
+                        </SplitItem>
+                    )}
                 </Split>
             </CardFooter>
         </Card>
     );
 };
 
+/**
+ * Update categories shown as extra rows in the summary, besides the security count
+ */
+const SUMMARY_SEVERITIES: UpdateSeverity[] = ["critical", "important", "bugfix", "enhancement", "low", "blocked"];
+
 /**
  * Summary Card Component
  */
@@ -287,7 +716,11 @@ const SummaryCard = ({
     const failed = machines.filter(m => m.state === "failed").length;
     const totalUpdates = machines.reduce((sum, m) => sum + (m.updates.total || 0), 0);
     const securityUpdates = machines.reduce((sum, m) => sum + (m.updates.security || 0), 0);
-    const upToDate = machines.filter(m => m.state === "connected" && m.updates.total === 0 && !m.updates.error).length;
+    const upToDate = machines.filter(m => m.state === "connected" && m.updates.total === 0 && m.updates.apps.length === 0 && !m.updates.error).length;
+    const rebootNeeded = machines.filter(needsReboot).length;
+    const severityTotals = (severity: UpdateSeverity) =>
+        machines.reduce((sum, m) => sum + (m.updates.severity[severity] || 0), 0);
+    const blockedHosts = machines.filter(m => m.updates.severity.blocked > 0).length;
     
     return (
         <Card className="summary-card">
@@ -327,12 +760,38 @@ const SummaryCard = ({
                         <span className="summary-label">{_("Security updates")}</span>
                     </div>
                 )}
+                {SUMMARY_SEVERITIES.filter(severity => severityTotals(severity) > 0).map(severity => (
+                    <div className="summary-item" key={severity}>
+                        <span className={`summary-value summary-severity-${severity}`}>
+                            {severityTotals(severity)}
+                        </span>
+                        <span className="summary-label">
+                            {cockpit.format(_("$0 updates"), getSeverityDescription(severity))}
+                        </span>
+                    </div>
+                ))}
+                {blockedHosts > 0 && (
+                    <div className="summary-item">
+                        <span className="summary-value summary-severity-blocked">
+                            {blockedHosts}
+                        </span>
+                        <span className="summary-label">{_("Hosts with blocked updates")}</span>
+                    </div>
+                )}
                 <div className="summary-item">
                     <span className="summary-value" style={{ color: "var(--pf-v6-global--success-color--100)" }}>
                         {upToDate}
                     </span>
                     <span className="summary-label">{_("Up to date")}</span>
                 </div>
+                {rebootNeeded > 0 && (
+                    <div className="summary-item">
+                        <span className="summary-value" style={{ color: "var(--pf-v6-global--warning-color--100)" }}>
+                            {rebootNeeded}
+                        </span>
+                        <span className="summary-label">{_("Needs reboot")}</span>
+                    </div>
+                )}
             </CardBody>
         </Card>
     );
@@ -345,13 +804,44 @@ const MachinesDashboard = () => {
     const [machines, setMachines] = useState<MachineWithUpdates[]>([]);
     const [loading, setLoading] = useState(true);
     const [alerts, setAlerts] = useState<AlertInfo[]>([]);
+    // Last audit log write failure, shown until dismissed
+    const [auditError, setAuditError] = useState<string | null>(null);
     const [selectedMachines, setSelectedMachines] = useState<Set<string>>(new Set());
     const [bulkUpdating, setBulkUpdating] = useState(false);
+    const [bulkProgress, setBulkProgress] = useState<BulkProgress | null>(null);
+    const [bulkOptions, setBulkOptions] = useState<BulkRunOptions>(DEFAULT_BULK_OPTIONS);
+    const [bulkPolicy, setBulkPolicy] = useState<InstallPolicy>("all");
+    const [recheckOptions, setRecheckOptions] = useState<RecheckOptions>(DEFAULT_RECHECK_OPTIONS);
+    const [probeOptions, setProbeOptions] = useState<ProbeOptions>(DEFAULT_PROBE_OPTIONS);
+    const [preflightOptions, setPreflightOptions] = useState<PreflightOptions>(DEFAULT_PREFLIGHT_OPTIONS);
+    const [now, setNow] = useState(() => Date.now());
+    const bulkRunRef = useRef<BulkRun | null>(null);
+    const [activeTab, setActiveTab] = useState<string | number>("machines");
+    const [historyHost, setHistoryHost] = useState<string | null>(null);
+    const [holds, setHolds] = useState<HoldsConfig>({});
+    const [holdsHost, setHoldsHost] = useState<string | null>(null);
+    // Null until read: updates are refused rather than run without their hooks
+    const [hooks, setHooks] = useState<HooksConfig | null>(null);
+    // Machine whose hooks are edited, null for the default hooks
+    const [hooksEditor, setHooksEditor] = useState<{ host: string | null } | null>(null);
+    const [hookOutputHost, setHookOutputHost] = useState<string | null>(null);
+    const [rebootTargets, setRebootTargets] = useState<string[] | null>(null);
+    const [pendingInstall, setPendingInstall] = useState<PendingInstall | null>(null);
+    const rebootWatchers = useRef<Map<string, AbortController>>(new Map());
+    const updateControllers = useRef<Map<string, AbortController>>(new Map());
+    // Why the pre-flight checks skipped a host, for the bulk summary
+    const preflightFailures = useRef<Map<string, string>>(new Map());
+    // Machine states as last reported by Cockpit, to notice machines that (re)connect
+    const reportedStates = useRef<Map<string, string | undefined>>(new Map());
+    // Probes in progress, aborted by a reload and on unmount
+    const probeRuns = useRef<Set<BulkRun>>(new Set());
+    // Update checks in progress, by machine
+    const machineChecks = useRef<Map<string, Promise<boolean>>>(new Map());
     
     // Add alert helper
-    const addAlert = useCallback((variant: AlertInfo["variant"], title: string) => {
+    const addAlert = useCallback((variant: AlertInfo["variant"], title: string, description?: string) => {
         const key = `alert-${Date.now()}`;
-        setAlerts(prev => [...prev, { key, variant, title }]);
+        setAlerts(prev => [...prev, { key, variant, title, description }]);
     }, []);
     
     // Remove alert helper
@@ -359,240 +849,674 @@ const MachinesDashboard = () => {
         setAlerts(prev => prev.filter(a => a.key !== key));
     }, []);
     
+    // Probe machines concurrently, each card is updated as soon as its machine settles
+    const probeHosts = useCallback((
+        hosts: string[],
+        steps: (host: string) => { connect: boolean; refresh: boolean },
+        onStart?: (host: string) => void
+    ) => {
+        const run = probeMachines(
+            hosts,
+            probeOptions,
+            steps,
+            (host, result) => {
+                setMachines(prev => prev.map(m =>
+                    m.key === host ? {
+                        ...m,
+                        state: result.state,
+                        label: result.hostname || m.label,
+                        updates: result.updates && !result.error
+                            ? result.updates
+                            : emptyUpdateInfo({ error: result.error, errorHint: result.errorHint, lastChecked: new Date() })
+                    } : m
+                ));
+            },
+            onStart
+        );
+        probeRuns.current.add(run);
+        run.done.then(() => probeRuns.current.delete(run));
+        return run;
+    }, [probeOptions]);
+    // The machine subscription outlives option changes and probes through a ref
+    const probeRef = useRef(probeHosts);
+    probeRef.current = probeHosts;
+    
     // Load machines and their update status
-    const loadMachines = useCallback(async () => {
+    const loadMachines = useCallback(() => {
         const machineList = getMachinesList();
+        const cache = readStatusCache();
+        reportedStates.current = new Map(machineList.map(m => [m.key, m.state]));
+        // Results of an earlier load would overwrite the new ones
+        probeRuns.current.forEach(run => run.abort());
         
-        // Initialize with loading state - mark unknown states as "connecting"
-        const initialMachines: MachineWithUpdates[] = machineList.map(m => ({
-            ...m,
-            state: m.state || "unknown",
-            updates: {
-                total: 0,
-                security: 0,
-                loading: true,
-                error: null,
-                lastChecked: null
-            }
-        }));
+        // Show the last known status right away, or a loading state for machines never seen
+        const initialMachines: MachineWithUpdates[] = machineList.map(m => {
+            const cached = cache[m.key];
+            return cached ? {
+                ...m,
+                state: m.state && m.state !== "unknown" ? m.state : cached.state || "unknown",
+                label: cached.label || m.label,
+                updates: cached.updates
+            } : {
+                ...m,
+                state: m.state || "unknown",
+                updates: emptyUpdateInfo({ loading: true })
+            };
+        });
         
         setMachines(initialMachines);
         setLoading(false);
         
-        // Process each machine
-        for (const machine of machineList) {
-            let effectiveState = machine.state;
-            let machineLabel = machine.label;
-            
-            // If state is unknown or undefined, check the connection
-            if (!effectiveState || effectiveState === "unknown") {
-                // Update to connecting state
-                setMachines(prev => prev.map(m =>
-                    m.key === machine.key ? { ...m, state: "connecting" } : m
-                ));
-                
-                // Check the actual connection and get hostname
-                const { state, hostname } = await checkMachineConnection(machine.address);
-                effectiveState = state;
-                
-                // Use hostname if available, otherwise keep existing label
-                if (hostname) {
-                    machineLabel = hostname;
-                }
-                
-                // Update with actual state and hostname
-                setMachines(prev => prev.map(m =>
-                    m.key === machine.key ? { ...m, state: effectiveState, label: machineLabel } : m
-                ));
-            }
-            
-            // Now load updates if connected
-            if (effectiveState === "connected") {
-                try {
-                    const updates = await getUpdatesForHost(machine.address);
-                    setMachines(prev => prev.map(m =>
-                        m.key === machine.key ? { ...m, updates } : m
-                    ));
-                } catch (error) {
-                    const err = error as Error;
+        const unknown = (state?: string) => !state || state === "unknown";
+        const states = new Map(machineList.map(m => [m.key, m.state]));
+        
+        probeHosts(
+            machineList.map(m => m.key),
+            host => ({ connect: unknown(states.get(host)), refresh: false }),
+            host => {
+                // Show the connection attempt unless a cached state is shown meanwhile
+                if (unknown(states.get(host)) && !cache[host]) {
                     setMachines(prev => prev.map(m =>
-                        m.key === machine.key ? {
-                            ...m,
-                            updates: {
-                                total: 0,
-                                security: 0,
-                                loading: false,
-                                error: err.message,
-                                lastChecked: new Date()
-                            }
-                        } : m
+                        m.key === host ? { ...m, state: "connecting" } : m
                     ));
                 }
-            } else {
-                setMachines(prev => prev.map(m =>
-                    m.key === machine.key ? {
-                        ...m,
-                        updates: {
-                            total: 0,
-                            security: 0,
-                            loading: false,
-                            error: effectiveState === "failed" ? _("Machine not connected") : null,
-                            lastChecked: null
-                        }
-                    } : m
-                ));
             }
-        }
-    }, []);
+        );
+    }, [probeHosts]);
     
     // Refresh updates for a specific machine
-    const refreshMachine = useCallback(async (host: string) => {
-        // First, set to connecting/loading state
-        setMachines(prev => prev.map(m =>
-            m.key === host ? {
-                ...m,
-                state: m.state === "connected" ? "connected" : "connecting",
-                updates: { ...m.updates, loading: true }
-            } : m
-        ));
+    // A check already running on the machine is shared rather than started twice
+    const refreshMachine = useCallback((host: string, quiet = false): Promise<boolean> => {
+        const running = machineChecks.current.get(host);
+        if (running) return running;
         
-        try {
-            // Check connection if not already connected
-            const machine = machines.find(m => m.key === host);
-            if (machine && machine.state !== "connected") {
-                const { state: connectionState, hostname } = await checkMachineConnection(host);
-                setMachines(prev => prev.map(m =>
-                    m.key === host ? { 
-                        ...m, 
-                        state: connectionState,
-                        label: hostname || m.label 
-                    } : m
-                ));
-                
-                if (connectionState !== "connected") {
-                    setMachines(prev => prev.map(m =>
-                        m.key === host ? {
-                            ...m,
-                            updates: {
-                                total: 0,
-                                security: 0,
-                                loading: false,
-                                error: _("Machine not connected"),
-                                lastChecked: new Date()
-                            }
-                        } : m
-                    ));
-                    return;
-                }
-            }
-            
-            // Refresh cache and get updates
-            await refreshPackageCache(host);
-            const updates = await getUpdatesForHost(host);
+        const check = (async () => {
+            // First, set to connecting/loading state
             setMachines(prev => prev.map(m =>
-                m.key === host ? { ...m, state: "connected", updates } : m
+                m.key === host ? {
+                    ...m,
+                    state: m.state === "connected" ? "connected" : "connecting",
+                    updates: { ...m.updates, loading: true }
+                } : m
             ));
-        } catch (error) {
-            const err = error as Error;
+            
+            // PackageKit may have been installed or started since the backend was detected
+            resetBackends(host);
+            const machine = machines.find(m => m.key === host);
+            const result = await probeMachine(host, probeOptions, {
+                connect: !machine || machine.state !== "connected",
+                refresh: true,
+            });
+            
             setMachines(prev => prev.map(m =>
                 m.key === host ? {
                     ...m,
-                    updates: {
-                        ...m.updates,
-                        loading: false,
-                        error: err.message
-                    }
+                    state: result.state,
+                    label: result.hostname || m.label,
+                    updates: result.updates && !result.error
+                        ? result.updates
+                        : result.state === "failed"
+                            ? emptyUpdateInfo({ error: result.error, lastChecked: new Date() })
+                            : { ...m.updates, loading: false, error: result.error, errorHint: result.errorHint, lastChecked: new Date() }
                 } : m
             ));
-            addAlert("danger", cockpit.format(_("Failed to check updates on $0: $1"), host, err.message));
-        }
-    }, [addAlert, machines]);
+            
+            if (result.error && result.state === "connected" && !quiet) {
+                addAlert("danger", cockpit.format(_("Failed to check updates on $0: $1"), host, result.error), result.errorHint);
+            }
+            return !result.error;
+        })().finally(() => machineChecks.current.delete(host));
+        machineChecks.current.set(host, check);
+        return check;
+    }, [addAlert, machines, probeOptions]);
+    
+    // Refresh requested by the user, recorded in the audit log
+    const checkMachine = useCallback(async (host: string) => {
+        const success = await refreshMachine(host);
+        recordAudit({ action: "refresh", host, packages: [], result: success ? "success" : "failure" });
+    }, [refreshMachine]);
     
     // Update a specific machine
-    const updateMachine = useCallback(async (host: string, securityOnly = false) => {
+    const updateMachine = useCallback(async (
+        host: string,
+        policy: InstallPolicy = "all",
+        packageIds?: string[],
+        signal?: AbortSignal
+    ): Promise<BulkJobResult> => {
+        // The controller lets the card, or the bulk run through `signal`, cancel the transaction
+        const controller = new AbortController();
+        updateControllers.current.set(host, controller);
+        signal?.addEventListener("abort", () => controller.abort(), { once: true });
+        preflightFailures.current.delete(host);
+        
         setMachines(prev => prev.map(m =>
             m.key === host ? {
                 ...m,
                 updating: true,
+                cancelling: false,
+                lastOutcome: undefined,
+                hookRuns: undefined,
                 updateProgress: { percent: 0, status: _("Starting update...") }
             } : m
         ));
         
+        const setOutcome = (lastOutcome: MachineWithUpdates["lastOutcome"]) => {
+            setMachines(prev => prev.map(m =>
+                m.key === host ? { ...m, lastOutcome } : m
+            ));
+        };
+        
         try {
-            const result = await installUpdatesOnHost(
+            const onProgress = (percent: number, status: string) => {
+                setMachines(prev => prev.map(m =>
+                    m.key === host ? {
+                        ...m,
+                        updateProgress: { percent, status }
+                    } : m
+                ));
+            };
+            const action = packageIds ? "install-selected" : policy === "security" ? "install-security" : "install";
+            
+            if (preflightOptions.enabled) {
+                onProgress(0, _("Running pre-flight checks..."));
+                const reasons = await runPreflight(host, preflightOptions, policy, packageIds);
+                if (reasons.length > 0) {
+                    const message = reasons.join("; ");
+                    preflightFailures.current.set(host, message);
+                    recordAudit({
+                        action,
+                        policy: packageIds ? undefined : policy,
+                        host,
+                        packages: packageIds || [],
+                        result: "skipped",
+                        detail: message,
+                    });
+                    setOutcome({ status: "skipped", message, at: new Date() });
+                    addAlert("warning", cockpit.format(_("Skipped update of $0: $1"), host, message));
+                    return "skipped";
+                }
+            }
+            
+            // Resolves with the failure of the hook, null when it succeeded
+            const hookRuns: HookRun[] = [];
+            const runHookPhase = async (
+                phase: HookPhase,
+                script: string,
+                timeoutSeconds: number,
+                hookSignal?: AbortSignal
+            ): Promise<string | null> => {
+                onProgress(phase === "pre" ? 0 : 100,
+                           phase === "pre" ? _("Running pre-update hook...") : _("Running post-update hook..."));
+                const run = await runHook(host, phase, script, timeoutSeconds, hookSignal);
+                hookRuns.push(run);
+                setMachines(prev => prev.map(m =>
+                    m.key === host ? { ...m, hookRuns: [...hookRuns] } : m
+                ));
+                return run.exitStatus === 0 ? null : describeHookFailure(run);
+            };
+            
+            // Hooks still loading, or that failed to load, are read again
+            let hookConfig = hooks;
+            if (!hookConfig) {
+                try {
+                    hookConfig = await readHooks();
+                    setHooks(hookConfig);
+                } catch (error) {
+                    const message = cockpit.format(_("Could not read update hooks: $0"), (error as Error).message);
+                    recordAudit({
+                        action,
+                        policy: packageIds ? undefined : policy,
+                        host,
+                        packages: packageIds || [],
+                        result: "failure",
+                        detail: message,
+                    });
+                    setOutcome({ status: "failed", message, at: new Date() });
+                    addAlert("danger", cockpit.format(_("Failed to update $0: $1"), host, message));
+                    return false;
+                }
+            }
+            
+            const scripts = getHookScripts(hookConfig, host);
+            if (scripts.pre.trim()) {
+                const preHookError = await runHookPhase("pre", scripts.pre, scripts.timeoutSeconds, controller.signal);
+                if (controller.signal.aborted) {
+                    recordAudit({
+                        action,
+                        policy: packageIds ? undefined : policy,
+                        host,
+                        packages: packageIds || [],
+                        result: "cancelled",
+                    });
+                    setOutcome({ status: "cancelled", at: new Date() });
+                    addAlert("info", cockpit.format(_("Update of $0 cancelled"), host));
+                    return false;
+                }
+                if (preHookError) {
+                    recordAudit({
+                        action,
+                        policy: packageIds ? undefined : policy,
+                        host,
+                        packages: packageIds || [],
+                        result: "failure",
+                        detail: preHookError,
+                    });
+                    setOutcome({ status: "failed", message: preHookError, at: new Date() });
+                    addAlert("danger", cockpit.format(_("Failed to update $0: $1"), host, preHookError));
+                    return false;
+                }
+            }
+            
+            // An explicit package list installs just that subset
+            const result = packageIds
+                ? await installPackagesOnHost(host, packageIds, onProgress, controller.signal)
+                : await installUpdatesOnHost(host, onProgress, policy, controller.signal);
+            
+            // The post-update hook runs whatever the outcome, e.g. to put the machine back in service,
+            // so cancelling the update does not stop it; only its timeout does
+            const postHookError = scripts.post.trim()
+                ? await runHookPhase("post", scripts.post, scripts.timeoutSeconds)
+                : null;
+            
+            recordAudit({
+                action,
+                policy: packageIds ? undefined : policy,
                 host,
-                (percent, status) => {
-                    setMachines(prev => prev.map(m =>
-                        m.key === host ? {
-                            ...m,
-                            updateProgress: { percent, status }
-                        } : m
-                    ));
-                },
-                securityOnly
-            );
+                packages: result.packageIds || packageIds || [],
+                result: result.success && !postHookError ? "success" : result.cancelled ? "cancelled" : "failure",
+                detail: result.error ?? postHookError ?? result.warning,
+            });
+            
+            if (postHookError && !result.success) {
+                addAlert("danger", cockpit.format(_("Failed to update $0: $1"), host, postHookError));
+            }
+            
+            if (result.cancelled) {
+                addAlert("info", cockpit.format(_("Update of $0 cancelled"), host));
+                setOutcome({ status: "cancelled", at: new Date() });
+                // Part of the packages may have been installed before the cancel
+                await refreshMachine(host);
+                return false;
+            }
             
             if (result.success) {
-                addAlert("success", cockpit.format(_("Updates installed successfully on $0"), host));
+                if (postHookError) {
+                    setOutcome({ status: "failed", message: postHookError, at: new Date() });
+                    addAlert("danger", cockpit.format(_("Failed to update $0: $1"), host, postHookError),
+                             _("The updates were installed."));
+                } else if (result.warning) {
+                    setOutcome({ status: "incomplete", message: result.warning, at: new Date() });
+                    addAlert("warning", cockpit.format(_("Updates installed on $0, but: $1"), host, result.warning));
+                } else {
+                    addAlert("success", cockpit.format(_("Updates installed successfully on $0"), host));
+                }
                 if (result.rebootRequired) {
                     addAlert("warning", cockpit.format(_("$0 requires a reboot to complete the update"), host));
+                    setMachines(prev => prev.map(m =>
+                        m.key === host ? { ...m, rebootRequired: true } : m
+                    ));
                 }
                 // Refresh to show current state
                 await refreshMachine(host);
+                return !postHookError;
             } else {
-                throw new Error(result.error);
+                setOutcome({ status: "failed", message: result.error, hint: result.errorHint, at: new Date() });
+                addAlert("danger", cockpit.format(_("Failed to update $0: $1"), host, result.error), result.errorHint);
+                return false;
             }
         } catch (error) {
             const err = error as Error;
+            setOutcome({ status: "failed", message: err.message, at: new Date() });
             addAlert("danger", cockpit.format(_("Failed to update $0: $1"), host, err.message));
+            return false;
         } finally {
+            updateControllers.current.delete(host);
             setMachines(prev => prev.map(m =>
                 m.key === host ? {
                     ...m,
                     updating: false,
+                    cancelling: false,
                     updateProgress: undefined
                 } : m
             ));
         }
-    }, [addAlert, refreshMachine]);
+    }, [addAlert, preflightOptions, hooks, refreshMachine]);
+    
+    // Cancel the update running on a machine
+    const cancelUpdate = useCallback((host: string) => {
+        const controller = updateControllers.current.get(host);
+        if (!controller) return;
+        
+        controller.abort();
+        setMachines(prev => prev.map(m =>
+            m.key === host ? { ...m, cancelling: true } : m
+        ));
+    }, []);
     
     // Bulk refresh all machines
     const refreshAll = useCallback(async () => {
         const connectedMachines = machines.filter(m => m.state === "connected");
         for (const machine of connectedMachines) {
-            await refreshMachine(machine.key);
+            await checkMachine(machine.key);
         }
-    }, [machines, refreshMachine]);
+    }, [machines, checkMachine]);
     
-    // Bulk update selected machines
-    const updateSelected = useCallback(async (securityOnly = false) => {
-        setBulkUpdating(true);
-        const selectedList = machines.filter(m => selectedMachines.has(m.key) && m.state === "connected");
+    // Cancel a scheduled reboot and stop watching the machine
+    const cancelMachineReboot = useCallback(async (host: string) => {
+        try {
+            await cancelReboot(host);
+            rebootWatchers.current.get(host)?.abort();
+            recordAudit({ action: "cancel-reboot", host, packages: [], result: "success" });
+            addAlert("info", cockpit.format(_("Scheduled reboot of $0 cancelled"), host));
+        } catch (error) {
+            const err = error as Error;
+            recordAudit({ action: "cancel-reboot", host, packages: [], result: "failure", detail: err.message });
+            addAlert("danger", cockpit.format(_("Failed to cancel the reboot of $0: $1"), host, err.message));
+        }
+    }, [addAlert]);
+    
+    // Reboot a machine and watch it until it is back, then re-check its updates
+    const rebootMachine = useCallback(async (host: string, when: Date | null, signal?: AbortSignal): Promise<boolean> => {
+        const watcher = new AbortController();
+        rebootWatchers.current.set(host, watcher);
+        signal?.addEventListener("abort", () => watcher.abort(), { once: true });
+        
+        const setReboot = (reboot: MachineWithUpdates["reboot"]) => {
+            setMachines(prev => prev.map(m =>
+                m.key === host ? { ...m, reboot } : m
+            ));
+        };
+        
+        let reboot: ScheduledReboot;
+        try {
+            reboot = await rebootHost(host, when);
+            recordAudit({
+                action: "reboot",
+                host,
+                packages: [],
+                result: "success",
+                detail: when ? cockpit.format(_("Scheduled for $0"), reboot.at.toISOString()) : undefined,
+            });
+        } catch (error) {
+            const err = error as Error;
+            rebootWatchers.current.delete(host);
+            recordAudit({ action: "reboot", host, packages: [], result: "failure", detail: err.message });
+            addAlert("danger", cockpit.format(_("Failed to reboot $0: $1"), host, err.message));
+            return false;
+        }
+        
+        // The reboot is due at the minute `shutdown` was given, which may be later than `when`
+        const delay = Math.max(0, reboot.at.getTime() - Date.now());
+        if (delay > 0) {
+            setReboot({ phase: "scheduled", at: reboot.at });
+            addAlert("info", cockpit.format(_("Reboot of $0 scheduled for $1"), host, reboot.at.toLocaleString()));
+        }
         
-        for (const machine of selectedList) {
-            if (machine.updates.total > 0) {
-                await updateMachine(machine.key, securityOnly);
+        const rebooting = window.setTimeout(() => setReboot({ phase: "rebooting", at: reboot.at }), delay);
+        watcher.signal.addEventListener("abort", () => window.clearTimeout(rebooting), { once: true });
+        
+        // Aborting a bulk reboot also calls off the reboot still scheduled on the host
+        const callOff = () => {
+            if (Date.now() < reboot.at.getTime()) {
+                cancelMachineReboot(host);
             }
+        };
+        if (signal?.aborted) {
+            callOff();
         }
+        signal?.addEventListener("abort", callOff, { once: true });
         
-        setBulkUpdating(false);
-        setSelectedMachines(new Set());
-    }, [machines, selectedMachines, updateMachine]);
+        const back = await waitForHost(host, { initialDelay: delay, bootId: reboot.bootId, signal: watcher.signal });
+        signal?.removeEventListener("abort", callOff);
+        rebootWatchers.current.delete(host);
+        setReboot(undefined);
+        
+        if (watcher.signal.aborted) {
+            return false;
+        }
+        
+        if (!back) {
+            setMachines(prev => prev.map(m =>
+                m.key === host ? { ...m, state: "failed" } : m
+            ));
+            addAlert("danger", cockpit.format(_("$0 did not come back after the reboot"), host));
+            return false;
+        }
+        
+        addAlert("success", cockpit.format(_("$0 is back online"), host));
+        const updates = await getUpdatesForHost(host);
+        setMachines(prev => prev.map(m =>
+            m.key === host ? { ...m, state: "connected", rebootRequired: false, updates } : m
+        ));
+        return true;
+    }, [addAlert, cancelMachineReboot]);
     
-    // Update all machines with pending updates
-    const updateAll = useCallback(async (securityOnly = false) => {
+    // Store the held packages of a machine, and hold them on the machine too when asked
+    const saveHolds = useCallback(async (host: string, settings: HoldSettings) => {
+        setHoldsHost(null);
+        const previous = holds[host];
+        const next = { ...holds, [host]: settings };
+        
+        const before = previous?.packages ?? [];
+        const added = settings.packages.filter(pkg => !before.includes(pkg));
+        const removed = before.filter(pkg => !settings.packages.includes(pkg));
+        const changes = [
+            ...added.length > 0 ? [cockpit.format(_("held $0"), added.join(", "))] : [],
+            ...removed.length > 0 ? [cockpit.format(_("released $0"), removed.join(", "))] : [],
+            ...settings.sync !== !!previous?.sync
+                ? [settings.sync ? _("holding on the machine") : _("no longer holding on the machine")]
+                : [],
+        ].join("; ");
+        const audit = { action: "edit-holds" as const, host, packages: [...added, ...removed] };
+        
+        try {
+            await writeHolds(next);
+            setHolds(next);
+        } catch (error) {
+            const message = (error as Error).message;
+            recordAudit({ ...audit, result: "failure", detail: changes ? `${changes}: ${message}` : message });
+            addAlert("danger", cockpit.format(_("Failed to save the held packages of $0"), host), message);
+            return;
+        }
+        
+        // Release holds set by the dashboard when syncing is turned off
+        if (settings.sync || previous?.sync) {
+            try {
+                await syncHolds(host, settings.sync ? settings.packages : [], previous?.sync ? previous.packages : []);
+            } catch (error) {
+                const message = (error as Error).message;
+                recordAudit({ ...audit, result: "failure", detail: changes ? `${changes}: ${message}` : message });
+                addAlert("warning", cockpit.format(_("Failed to update the package holds on $0"), host), message);
+                return;
+            }
+        }
+        recordAudit({ ...audit, result: "success", detail: changes || undefined });
+    }, [holds, addAlert]);
+    
+    // Store the default update hooks, or those of one machine; null scripts go back to the default
+    const saveHooks = useCallback(async (host: string | null, scripts: HookScripts | null) => {
+        setHooksEditor(null);
+        // Saving before the hooks were read would overwrite them
+        if (!hooks) return;
+        const machineHooks = { ...hooks.machines };
+        if (host !== null) {
+            if (scripts) {
+                machineHooks[host] = scripts;
+            } else {
+                delete machineHooks[host];
+            }
+        }
+        const next: HooksConfig = {
+            default: host === null && scripts ? scripts : hooks.default,
+            machines: machineHooks,
+        };
+        // Null scripts mean the machine uses the default hooks
+        const before = host === null ? hooks.default : hooks.machines[host] ?? null;
+        const audit = { action: "edit-hooks" as const, host: host ?? "*", packages: [] };
+        
+        try {
+            await writeHooks(next);
+            setHooks(next);
+            recordAudit({ ...audit, result: "success", detail: JSON.stringify({ before, after: scripts }) });
+        } catch (error) {
+            recordAudit({
+                ...audit,
+                result: "failure",
+                detail: JSON.stringify({ before, after: scripts, error: (error as Error).message }),
+            });
+            addAlert("danger", host === null
+                ? _("Failed to save the default update hooks")
+                : cockpit.format(_("Failed to save the update hooks of $0"), host), (error as Error).message);
+        }
+    }, [hooks, addAlert]);
+    
+    // Reboot the machines chosen in the reboot dialog
+    const rebootMachines = useCallback(async (hosts: string[], { when, oneAtATime }: RebootRequest) => {
+        setRebootTargets(null);
+        if (hosts.length === 1) {
+            await rebootMachine(hosts[0], when);
+            return;
+        }
+        
+        // One at a time: only the first host waits for the scheduled time,
+        // every following host reboots as soon as the previous one is back
         setBulkUpdating(true);
-        const machinesWithUpdates = machines.filter(m =>
-            m.state === "connected" && m.updates.total > 0 && !m.updating
+        const run = runBulkJobs(
+            hosts,
+            (host, signal) => rebootMachine(host, !oneAtATime || host === hosts[0] ? when : null, signal),
+            { ...bulkOptions, concurrency: oneAtATime ? 1 : hosts.length, stopOnFailure: oneAtATime },
+            setBulkProgress
         );
+        bulkRunRef.current = run;
+        
+        const result = await run.done;
+        
+        bulkRunRef.current = null;
+        setBulkProgress(null);
+        setBulkUpdating(false);
+        setSelectedMachines(new Set());
         
-        for (const machine of machinesWithUpdates) {
-            await updateMachine(machine.key, securityOnly);
+        addAlert(result.failed.length > 0 ? "danger" : result.skipped.length > 0 ? "warning" : "success",
+                 cockpit.format(_("Bulk reboot finished: $0 succeeded, $1 failed, $2 skipped"),
+                                result.succeeded.length, result.failed.length, result.skipped.length));
+    }, [addAlert, bulkOptions, rebootMachine]);
+    
+    // Health check after a rollout wave: the host must be reachable and report its updates again
+    const verifyMachine = useCallback(async (host: string): Promise<boolean> => {
+        const { state } = await checkMachineConnection(host);
+        if (state !== "connected") {
+            setMachines(prev => prev.map(m =>
+                m.key === host ? {
+                    ...m,
+                    state,
+                    updates: emptyUpdateInfo({ error: _("Machine not connected"), lastChecked: new Date() })
+                } : m
+            ));
+            return false;
         }
         
+        const updates = await getUpdatesForHost(host);
+        setMachines(prev => prev.map(m =>
+            m.key === host ? { ...m, state, updates } : m
+        ));
+        return !updates.error;
+    }, []);
+    
+    // Run updates on several machines through the bulk runner
+    const runBulkUpdate = useCallback(async (hosts: string[], job: BulkJob) => {
+        if (hosts.length === 0) return;
+        
+        setBulkUpdating(true);
+        const run = bulkOptions.mode === "waves"
+            ? runRollout(hosts, job, verifyMachine, bulkOptions, setBulkProgress)
+            : runBulkJobs(hosts, job, bulkOptions, setBulkProgress);
+        bulkRunRef.current = run;
+        
+        const result = await run.done;
+        
+        bulkRunRef.current = null;
+        setBulkProgress(null);
         setBulkUpdating(false);
+        
+        const summary = cockpit.format(_("Bulk update finished: $0 succeeded, $1 failed, $2 skipped"),
+                                       result.succeeded.length, result.failed.length, result.skipped.length);
+        // Hosts skipped by a stop or a halted rollout have no reason of their own
+        const skipReasons = result.skipped
+            .filter(host => preflightFailures.current.has(host))
+            .map(host => cockpit.format("$0: $1", host, preflightFailures.current.get(host)))
+            .join("\n");
+        addAlert(result.failed.length > 0 ? "danger" : result.skipped.length > 0 ? "warning" : "success", summary,
+                 skipReasons || undefined);
+        if (result.haltReason === "canary") {
+            addAlert("danger", _("Rollout halted: the canary wave had failures"));
+        } else if (result.haltReason === "wave") {
+            addAlert("danger", _("Rollout halted: a wave had failures"));
+        }
+    }, [addAlert, bulkOptions, verifyMachine]);
+    
+    // Preview the changes of an update on one machine before running it
+    const previewUpdate = useCallback((host: string, policy: InstallPolicy = "all", packageIds?: string[]) => {
+        const label = machines.find(m => m.key === host)?.label || host;
+        setPendingInstall({
+            title: cockpit.format(_("Update $0"), label),
+            targets: [{ host, label, packageIds }],
+            policy,
+            run: () => updateMachine(host, policy, packageIds),
+        });
     }, [machines, updateMachine]);
     
+    // Bulk update selected machines
+    const updateSelected = useCallback(() => {
+        const selectedList = machines.filter(m =>
+            selectedMachines.has(m.key) && m.state === "connected" &&
+            countPolicyUpdates(m.updates, bulkPolicy, holds[m.key]?.packages) > 0
+        );
+        if (selectedList.length === 0) return;
+        
+        setPendingInstall({
+            title: cockpit.format(_("Update $0 selected machines"), selectedList.length),
+            targets: selectedList.map(m => ({ host: m.key, label: m.label })),
+            policy: bulkPolicy,
+            run: async () => {
+                await runBulkUpdate(selectedList.map(m => m.key), (host, signal) => updateMachine(host, bulkPolicy, undefined, signal));
+                setSelectedMachines(new Set());
+            },
+        });
+    }, [machines, selectedMachines, bulkPolicy, holds, runBulkUpdate, updateMachine]);
+    
+    // Update all machines with pending updates matching the bulk policy
+    const updateAll = useCallback(() => {
+        const machinesWithUpdates = machines.filter(m =>
+            m.state === "connected" && !m.updating &&
+            countPolicyUpdates(m.updates, bulkPolicy, holds[m.key]?.packages) > 0
+        );
+        if (machinesWithUpdates.length === 0) return;
+        
+        setPendingInstall({
+            title: cockpit.format(_("Update $0 machines"), machinesWithUpdates.length),
+            targets: machinesWithUpdates.map(m => ({ host: m.key, label: m.label })),
+            policy: bulkPolicy,
+            run: () => runBulkUpdate(machinesWithUpdates.map(m => m.key), (host, signal) => updateMachine(host, bulkPolicy, undefined, signal)),
+        });
+    }, [machines, bulkPolicy, holds, runBulkUpdate, updateMachine]);
+    
+    // Install the packages fixing an advisory on every affected machine
+    const applyAdvisory = useCallback((advisory: string, packages: Map<string, string[]>) => {
+        setPendingInstall({
+            title: cockpit.format(_("Apply $0"), advisory),
+            targets: [...packages].map(([host, packageIds]) => ({
+                host,
+                label: machines.find(m => m.key === host)?.label || host,
+                packageIds,
+            })),
+            policy: "all",
+            run: () => {
+                addAlert("info", cockpit.format(_("Applying $0 on $1 machines"), advisory, packages.size));
+                runBulkUpdate([...packages.keys()], (host, signal) => updateMachine(host, "all", packages.get(host), signal));
+            },
+        });
+    }, [machines, addAlert, runBulkUpdate, updateMachine]);
+    
     // Handle machine selection
     const handleSelect = useCallback((host: string, selected: boolean) => {
         setSelectedMachines(prev => {
@@ -621,6 +1545,12 @@ const MachinesDashboard = () => {
         loadMachines();
         
         const unsubscribe = subscribeMachines((newMachineList) => {
+            // Machines that just connected, or appeared connected, are probed like on load
+            const connected = newMachineList
+                .filter(m => m.state === "connected" && reportedStates.current.get(m.key) !== "connected")
+                .map(m => m.key);
+            reportedStates.current = new Map(newMachineList.map(m => [m.key, m.state]));
+            
             // Check if machine list has actually changed
             setMachines(prev => {
                 const prevKeys = new Set(prev.map(m => m.key));
@@ -642,7 +1572,7 @@ const MachinesDashboard = () => {
                         const existing = prev.find(p => p.key === newM.key);
                         if (existing) {
                             // Keep existing update info, update machine state
-                            const needsRefresh = existing.state !== newM.state && newM.state === "connected";
+                            const needsRefresh = connected.includes(newM.key);
                             return {
                                 ...existing,
                                 ...newM,
@@ -652,62 +1582,89 @@ const MachinesDashboard = () => {
                         // New machine - will load updates
                         return {
                             ...newM,
-                            updates: {
-                                total: 0,
-                                security: 0,
-                                loading: newM.state === "connected",
-                                error: null,
-                                lastChecked: null
-                            }
+                            updates: emptyUpdateInfo({ loading: connected.includes(newM.key) })
                         };
                     });
                 }
                 return prev;
             });
+            
+            if (connected.length > 0) {
+                // A machine coming back may have changed, detect its backend again
+                connected.forEach(host => resetBackends(host));
+                probeRef.current(connected, () => ({ connect: false, refresh: false }));
+            }
         });
         
         return () => {
             unsubscribe();
+            probeRuns.current.forEach(run => run.abort());
+            closePackageKitClients();
         };
     }, []);
     
-    // Auto-refresh updates for machines that need it
+    // Background checks read the latest machines and refresh through refs so
+    // the scheduler is only restarted when its options change
+    const machinesRef = useRef(machines);
+    machinesRef.current = machines;
+    const refreshRef = useRef(refreshMachine);
+    refreshRef.current = refreshMachine;
+    
     useEffect(() => {
-        const machinesNeedingRefresh = machines.filter(m => 
-            m.state === "connected" && 
-            m.updates.loading && 
-            !m.updating
+        return scheduleRechecks(
+            () => machinesRef.current.map(m => ({
+                key: m.key,
+                connected: m.state === "connected",
+                busy: m.updating || m.updates.loading || machineChecks.current.has(m.key) || !!m.reboot,
+                lastChecked: m.updates.lastChecked,
+            })),
+            key => refreshRef.current(key, true),
+            recheckOptions
         );
-        
-        for (const machine of machinesNeedingRefresh) {
-            getUpdatesForHost(machine.address).then(updates => {
-                setMachines(prev => prev.map(m =>
-                    m.key === machine.key ? { ...m, updates } : m
-                ));
-            }).catch(error => {
-                const err = error as Error;
-                setMachines(prev => prev.map(m =>
-                    m.key === machine.key ? {
-                        ...m,
-                        updates: {
-                            total: 0,
-                            security: 0,
-                            loading: false,
-                            error: err.message,
-                            lastChecked: new Date()
-                        }
-                    } : m
-                ));
-            });
-        }
-    }, [machines]);
+    }, [recheckOptions]);
+    
+    // Persist the fleet status, debounced as progress updates change machines often
+    useEffect(() => {
+        if (loading) return;
+        const timer = window.setTimeout(() => writeStatusCache(machines), 1000);
+        return () => window.clearTimeout(timer);
+    }, [machines, loading]);
+    
+    // Load the held packages of every machine
+    useEffect(() => {
+        readHolds()
+            .then(setHolds)
+            .catch(error => console.warn("Failed to read package holds:", error));
+    }, []);
+    
+    // Audit records that could not be written must not go unnoticed
+    useEffect(() => subscribeAuditErrors((error, entry) => {
+        setAuditError(cockpit.format(_("$0 on $1: $2"), getAuditActionDescription(entry.action), entry.host,
+                                     error.message));
+    }), []);
+    
+    // Load the update hooks
+    useEffect(() => {
+        readHooks()
+            .then(setHooks)
+            .catch(error => addAlert("danger", _("Failed to read the update hooks, updates are refused until they can be read"),
+                                     (error as Error).message));
+    }, [addAlert]);
+    
+    // Re-render once a minute so stale cards get marked
+    useEffect(() => {
+        const timer = window.setInterval(() => setNow(Date.now()), 60000);
+        return () => window.clearInterval(timer);
+    }, []);
     
     // Calculate summary stats
     const totalUpdates = machines.reduce((sum, m) => sum + (m.updates.total || 0), 0);
-    const securityUpdates = machines.reduce((sum, m) => sum + (m.updates.security || 0), 0);
+    const policyUpdates = machines
+        .filter(m => m.state === "connected")
+        .reduce((sum, m) => sum + countPolicyUpdates(m.updates, bulkPolicy, holds[m.key]?.packages), 0);
     const selectedUpdates = machines
         .filter(m => selectedMachines.has(m.key))
-        .reduce((sum, m) => sum + (m.updates.total || 0), 0);
+        .reduce((sum, m) => sum + countPolicyUpdates(m.updates, bulkPolicy, holds[m.key]?.packages), 0);
     
     if (loading) {
         return (
@@ -739,15 +1696,31 @@ const MachinesDashboard = () => {
                 {alerts.map(alert => (
                     <Alert
                         key={alert.key}
+                        className="dashboard-alert"
                         variant={alert.variant}
                         title={alert.title}
                         actionClose={<AlertActionCloseButton onClose={() => removeAlert(alert.key)} />}
                         timeout={5000}
                         onTimeout={() => removeAlert(alert.key)}
-                    />
+                    >
+                        {alert.description}
+                    </Alert>
                 ))}
             </AlertGroup>
             
+            {auditError && (
+                <PageSection>
+                    <Alert
+                        isInline
+                        variant="danger"
+                        title={_("An action could not be recorded in the audit log")}
+                        actionClose={<AlertActionCloseButton onClose={() => setAuditError(null)} />}
+                    >
+                        {auditError}
+                    </Alert>
+                </PageSection>
+            )}
+            
             <PageSection>
                 <SummaryCard machines={machines} />
             </PageSection>
@@ -769,32 +1742,56 @@ const MachinesDashboard = () => {
                                 </ToolbarItem>
                                 {totalUpdates > 0 && (
                                     <>
+                                        <ToolbarItem>
+                                            <PolicySelect
+                                                policy={bulkPolicy}
+                                                onChange={setBulkPolicy}
+                                                isDisabled={bulkUpdating}
+                                            />
+                                        </ToolbarItem>
                                         <ToolbarItem>
                                             <Button
-                                                variant="primary"
-                                                onClick={() => updateAll(false)}
+                                                variant={bulkPolicy === "security" ? "warning" : "primary"}
+                                                icon={bulkPolicy === "security" ? <SecurityIcon /> : undefined}
+                                                onClick={updateAll}
                                                 isLoading={bulkUpdating}
-                                                isDisabled={bulkUpdating}
+                                                isDisabled={bulkUpdating || policyUpdates === 0}
                                             >
-                                                {cockpit.format(_("Update all ($0)"), totalUpdates)}
+                                                {cockpit.format(_("Update all ($0)"), policyUpdates)}
                                             </Button>
                                         </ToolbarItem>
-                                        {securityUpdates > 0 && (
-                                            <ToolbarItem>
-                                                <Button
-                                                    variant="warning"
-                                                    icon={<SecurityIcon />}
-                                                    onClick={() => updateAll(true)}
-                                                    isLoading={bulkUpdating}
-                                                    isDisabled={bulkUpdating}
-                                                >
-                                                    {cockpit.format(_("Security only ($0)"), securityUpdates)}
-                                                </Button>
-                                            </ToolbarItem>
-                                        )}
                                     </>
                                 )}
                             </ToolbarGroup>
+                            <BulkSettings
+                                options={bulkOptions}
+                                onChange={setBulkOptions}
+                                isDisabled={bulkUpdating}
+                            />
+                            <PreflightSettings
+                                options={preflightOptions}
+                                onChange={setPreflightOptions}
+                                isDisabled={bulkUpdating}
+                            />
+                            <ToolbarGroup>
+                                <ToolbarItem>
+                                    <Button
+                                        variant="link"
+                                        isInline
+                                        icon={<TerminalIcon />}
+                                        onClick={() => setHooksEditor({ host: null })}
+                                        isDisabled={!hooks}
+                                    >
+                                        {_("Default hooks")}
+                                    </Button>
+                                </ToolbarItem>
+                            </ToolbarGroup>
+                            <RecheckSettings
+                                options={recheckOptions}
+                                onChange={setRecheckOptions}
+                                probeOptions={probeOptions}
+                                onProbeChange={setProbeOptions}
+                            />
                             <ToolbarGroup variant="action-group-plain" align={{ default: "alignEnd" }}>
                                 <ToolbarItem>
                                     <Checkbox
@@ -805,12 +1802,25 @@ const MachinesDashboard = () => {
                                         isDisabled={bulkUpdating}
                                     />
                                 </ToolbarItem>
+                                {selectedMachines.size > 0 && (
+                                    <ToolbarItem>
+                                        <Button
+                                            variant="secondary"
+                                            size="sm"
+                                            icon={<PowerOffIcon />}
+                                            onClick={() => setRebootTargets([...selectedMachines])}
+                                            isDisabled={bulkUpdating}
+                                        >
+                                            {cockpit.format(_("Reboot selected ($0)"), selectedMachines.size)}
+                                        </Button>
+                                    </ToolbarItem>
+                                )}
                                 {selectedMachines.size > 0 && selectedUpdates > 0 && (
                                     <ToolbarItem>
                                         <Button
                                             variant="primary"
                                             size="sm"
-                                            onClick={() => updateSelected(false)}
+                                            onClick={updateSelected}
                                             isLoading={bulkUpdating}
                                             isDisabled={bulkUpdating}
                                         >
@@ -821,23 +1831,155 @@ const MachinesDashboard = () => {
                             </ToolbarGroup>
                         </ToolbarContent>
                     </Toolbar>
+                    {bulkProgress && (
+                        <Split hasGutter className="bulk-progress">
+                            <SplitItem isFilled>
+                                <Progress
+                                    value={bulkProgress.total > 0
+                                        ? (bulkProgress.succeeded.length + bulkProgress.failed.length + bulkProgress.skipped.length) * 100 / bulkProgress.total
+                                        : 0}
+                                    title={getBulkProgressTitle(bulkProgress)}
+                                    variant={bulkProgress.failed.length > 0 ? ProgressVariant.danger : undefined}
+                                    size={ProgressSize.sm}
+                                />
+                            </SplitItem>
+                            <SplitItem>
+                                <Button
+                                    variant="secondary"
+                                    size="sm"
+                                    onClick={() => bulkRunRef.current?.stop()}
+                                    isDisabled={bulkProgress.stopping}
+                                >
+                                    {_("Stop after current hosts")}
+                                </Button>
+                            </SplitItem>
+                            <SplitItem>
+                                <Button
+                                    variant="danger"
+                                    size="sm"
+                                    onClick={() => bulkRunRef.current?.abort()}
+                                >
+                                    {_("Cancel all")}
+                                </Button>
+                            </SplitItem>
+                        </Split>
+                    )}
                 </div>
             </PageSection>
             
             <PageSection isFilled>
-                <div className="machines-gallery">
-                    {machines.map(machine => (
-                        <MachineCard
-                            key={machine.key}
-                            machine={machine}
-                            onRefresh={refreshMachine}
-                            onUpdate={updateMachine}
-                            onSelect={handleSelect}
-                            isSelected={selectedMachines.has(machine.key)}
-                        />
-                    ))}
-                </div>
+                <Tabs activeKey={activeTab} onSelect={(_event, key) => setActiveTab(key)} mountOnEnter unmountOnExit>
+                    <Tab eventKey="machines" title={<TabTitleText>{_("Machines")}</TabTitleText>}>
+                        <div className="machines-gallery">
+                            {machines.map(machine => (
+                                <MachineCard
+                                    key={machine.key}
+                                    machine={machine}
+                                    onRefresh={checkMachine}
+                                    onUpdate={previewUpdate}
+                                    onCancelUpdate={cancelUpdate}
+                                    onReboot={host => setRebootTargets([host])}
+                                    onCancelReboot={cancelMachineReboot}
+                                    onShowHistory={setHistoryHost}
+                                    onEditHolds={setHoldsHost}
+                                    onEditHooks={host => setHooksEditor({ host })}
+                                    onShowHookOutput={setHookOutputHost}
+                                    onSelect={handleSelect}
+                                    isSelected={selectedMachines.has(machine.key)}
+                                    isStale={isStale(machine.updates.lastChecked, recheckOptions, now)}
+                                    held={holds[machine.key]?.packages ?? NO_HOLDS}
+                                    hooks={hooks}
+                                />
+                            ))}
+                        </div>
+                    </Tab>
+                    <Tab eventKey="advisories" title={<TabTitleText>{_("Advisories")}</TabTitleText>}>
+                        <div className="tab-content">
+                            <AdvisoriesView
+                                hosts={machines
+                                    .filter(m => m.state === "connected" && m.updates.packages.length > 0)
+                                    .map(m => ({ key: m.key, label: m.label, packages: m.updates.packages }))}
+                                onApply={applyAdvisory}
+                                isDisabled={bulkUpdating}
+                            />
+                        </div>
+                    </Tab>
+                    <Tab eventKey="repositories" title={<TabTitleText>{_("Repositories")}</TabTitleText>}>
+                        <div className="tab-content">
+                            <RepositoriesView
+                                hosts={machines
+                                    .filter(m => m.state === "connected" && (!m.updates.backend || m.updates.backend === "packagekit"))
+                                    .map(m => ({ key: m.key, label: m.label }))}
+                                isDisabled={bulkUpdating}
+                            />
+                        </div>
+                    </Tab>
+                    <Tab eventKey="audit" title={<TabTitleText>{_("Audit log")}</TabTitleText>}>
+                        <div className="tab-content">
+                            <AuditView />
+                        </div>
+                    </Tab>
+                </Tabs>
             </PageSection>
+            
+            {historyHost && (
+                <HistoryDialog
+                    host={historyHost}
+                    label={machines.find(m => m.key === historyHost)?.label || historyHost}
+                    onClose={() => setHistoryHost(null)}
+                />
+            )}
+            
+            {holdsHost && (
+                <HoldsDialog
+                    label={machines.find(m => m.key === holdsHost)?.label || holdsHost}
+                    settings={holds[holdsHost] ?? { packages: [], sync: false }}
+                    onSave={settings => saveHolds(holdsHost, settings)}
+                    onClose={() => setHoldsHost(null)}
+                />
+            )}
+            
+            {hooksEditor && hooks && (
+                <HooksDialog
+                    label={hooksEditor.host === null
+                        ? null
+                        : machines.find(m => m.key === hooksEditor.host)?.label || hooksEditor.host}
+                    scripts={hooksEditor.host === null ? hooks.default : hooks.machines[hooksEditor.host] ?? null}
+                    defaultScripts={hooks.default}
+                    onSave={scripts => saveHooks(hooksEditor.host, scripts)}
+                    onClose={() => setHooksEditor(null)}
+                />
+            )}
+            
+            {hookOutputHost && (
+                <HookOutputDialog
+                    label={machines.find(m => m.key === hookOutputHost)?.label || hookOutputHost}
+                    runs={machines.find(m => m.key === hookOutputHost)?.hookRuns ?? []}
+                    onClose={() => setHookOutputHost(null)}
+                />
+            )}
+            
+            {rebootTargets && (
+                <RebootDialog
+                    labels={rebootTargets.map(host => machines.find(m => m.key === host)?.label || host)}
+                    onConfirm={request => rebootMachines(rebootTargets, request)}
+                    onClose={() => setRebootTargets(null)}
+                />
+            )}
+            
+            {pendingInstall && (
+                <PreviewDialog
+                    title={pendingInstall.title}
+                    targets={pendingInstall.targets}
+                    policy={pendingInstall.policy}
+                    timeoutSeconds={probeOptions.updatesSeconds}
+                    onConfirm={() => {
+                        setPendingInstall(null);
+                        pendingInstall.run();
+                    }}
+                    onClose={() => setPendingInstall(null)}
+                />
+            )}
         </Page>
     );
 };
@@ -0,0 +1,168 @@
+/*
+ * This file is part of Cockpit Machines Dashboard.
+ *
+ * Copyright (C) 2026
+ *
+ * Cockpit is free software; you can redistribute it and/or modify it
+ * under the terms of the GNU Lesser General Public License as published by
+ * the Free Software Foundation; either version 2.1 of the License, or
+ * (at your option) any later version.
+ */
+
+import cockpit from "cockpit";
+import React, { useState, useEffect } from "react";
+
+import {
+    Alert,
+    Button,
+    Content,
+    EmptyState,
+    Label,
+    Modal,
+    ModalBody,
+    ModalFooter,
+    ModalHeader,
+    Spinner,
+} from "@patternfly/react-core";
+import { CheckCircleIcon, ExclamationCircleIcon } from "@patternfly/react-icons";
+import {
+    ExpandableRowContent,
+    Table,
+    Tbody,
+    Td,
+    Th,
+    Thead,
+    Tr,
+} from "@patternfly/react-table";
+
+import {
+    type HistoryEntry,
+    getRoleDescription,
+    getUpdateHistory,
+} from "./machines-api";
+
+const _ = cockpit.gettext;
+
+/**
+ * Format a transaction duration given in milliseconds
+ */
+const formatDuration = (ms: number): string => {
+    const seconds = Math.round(ms / 1000);
+    if (seconds < 60) {
+        return cockpit.format(_("$0 s"), seconds);
+    }
+    return cockpit.format(_("$0 min $1 s"), Math.floor(seconds / 60), seconds % 60);
+};
+
+/**
+ * Dialog listing the past package transactions of a machine
+ */
+export const HistoryDialog = ({
+    host,
+    label,
+    onClose,
+}: {
+    host: string;
+    label: string;
+    onClose: () => void;
+}) => {
+    const [history, setHistory] = useState<HistoryEntry[] | null>(null);
+    const [error, setError] = useState<string | null>(null);
+    const [expanded, setExpanded] = useState<Set<string>>(new Set());
+
+    useEffect(() => {
+        getUpdateHistory(host)
+            .then(setHistory)
+            .catch(err => setError((err as Error).message || _("Failed to read the transaction history")));
+    }, [host]);
+
+    const toggle = (id: string) => {
+        setExpanded(prev => {
+            const next = new Set(prev);
+            if (next.has(id)) {
+                next.delete(id);
+            } else {
+                next.add(id);
+            }
+            return next;
+        });
+    };
+
+    return (
+        <Modal isOpen variant="large" onClose={onClose} aria-labelledby="history-dialog-title">
+            <ModalHeader title={cockpit.format(_("Update history of $0"), label)} labelId="history-dialog-title" />
+            <ModalBody>
+                {error ? (
+                    <Alert isInline variant="danger" title={error} />
+                ) : history === null ? (
+                    <EmptyState titleText={_("Loading history...")} icon={Spinner} />
+                ) : history.length === 0 ? (
+                    <EmptyState titleText={_("No package transactions recorded")} />
+                ) : (
+                    <Table aria-label={cockpit.format(_("Update history of $0"), label)} variant="compact">
+                        <Thead>
+                            <Tr>
+                                <Th screenReaderText={_("Row expansion")} />
+                                <Th>{_("Date")}</Th>
+                                <Th>{_("Action")}</Th>
+                                <Th>{_("Result")}</Th>
+                                <Th>{_("Duration")}</Th>
+                                <Th>{_("User")}</Th>
+                                <Th>{_("Packages")}</Th>
+                            </Tr>
+                        </Thead>
+                        {history.map((entry, rowIndex) => (
+                            <Tbody key={entry.id} isExpanded={expanded.has(entry.id)}>
+                                <Tr>
+                                    <Td
+                                        expand={entry.packages.length > 0
+                                            ? { rowIndex, isExpanded: expanded.has(entry.id), onToggle: () => toggle(entry.id) }
+                                            : undefined}
+                                    />
+                                    <Td dataLabel={_("Date")}>{entry.date.toLocaleString()}</Td>
+                                    <Td dataLabel={_("Action")}>{getRoleDescription(entry.role)}</Td>
+                                    <Td dataLabel={_("Result")}>
+                                        {entry.succeeded ? (
+                                            <Label isCompact color="green" icon={<CheckCircleIcon />}>{_("Succeeded")}</Label>
+                                        ) : (
+                                            <Label isCompact color="red" icon={<ExclamationCircleIcon />}>{_("Failed")}</Label>
+                                        )}
+                                    </Td>
+                                    <Td dataLabel={_("Duration")}>{formatDuration(entry.duration)}</Td>
+                                    <Td dataLabel={_("User")}>{entry.user ?? entry.uid}</Td>
+                                    <Td dataLabel={_("Packages")}>{entry.packages.length}</Td>
+                                </Tr>
+                                {entry.packages.length > 0 && (
+                                    <Tr isExpanded={expanded.has(entry.id)}>
+                                        <Td colSpan={7}>
+                                            <ExpandableRowContent>
+                                                <ul className="history-packages">
+                                                    {entry.packages.map(pkg => (
+                                                        <li key={`${pkg.action}-${pkg.name}-${pkg.version}-${pkg.arch}`}>
+                                                            <Label isCompact>{pkg.action}</Label>
+                                                            {" "}{pkg.name} {pkg.version} ({pkg.arch})
+                                                        </li>
+                                                    ))}
+                                                </ul>
+                                                {entry.cmdline && (
+                                                    <Content component="small">
+                                                        {cockpit.format(_("Started by: $0"), entry.cmdline)}
+                                                    </Content>
+                                                )}
+                                            </ExpandableRowContent>
+                                        </Td>
+                                    </Tr>
+                                )}
+                            </Tbody>
+                        ))}
+                    </Table>
+                )}
+            </ModalBody>
+            <ModalFooter>
+                <Button variant="secondary" onClick={onClose}>
+                    {_("Close")}
+                </Button>
+            </ModalFooter>
+        </Modal>
+    );
+};
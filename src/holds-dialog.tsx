@@ -0,0 +1,131 @@
+/*
+ * This file is part of Cockpit Machines Dashboard.
+ *
+ * Copyright (C) 2026
+ *
+ * Cockpit is free software; you can redistribute it and/or modify it
+ * under the terms of the GNU Lesser General Public License as published by
+ * the Free Software Foundation; either version 2.1 of the License, or
+ * (at your option) any later version.
+ */
+
+import cockpit from "cockpit";
+import React, { useState } from "react";
+
+import {
+    Button,
+    Checkbox,
+    Form,
+    FormGroup,
+    FormHelperText,
+    HelperText,
+    HelperTextItem,
+    InputGroup,
+    InputGroupItem,
+    Label,
+    LabelGroup,
+    Modal,
+    ModalBody,
+    ModalFooter,
+    ModalHeader,
+    TextInput,
+} from "@patternfly/react-core";
+
+import { type HoldSettings } from "./holds";
+
+const _ = cockpit.gettext;
+
+/**
+ * Dialog to edit the packages held on a machine
+ */
+export const HoldsDialog = ({
+    label,
+    settings,
+    onSave,
+    onClose,
+}: {
+    label: string;
+    settings: HoldSettings;
+    onSave: (settings: HoldSettings) => void;
+    onClose: () => void;
+}) => {
+    const [packages, setPackages] = useState(settings.packages);
+    const [sync, setSync] = useState(settings.sync);
+    const [name, setName] = useState("");
+
+    const trimmed = name.trim();
+    const invalidName = trimmed !== "" && !/^[\w.+:*?-]+$/.test(trimmed);
+
+    const addPackage = () => {
+        if (trimmed && !invalidName && !packages.includes(trimmed)) {
+            setPackages([...packages, trimmed]);
+        }
+        setName("");
+    };
+
+    return (
+        <Modal isOpen variant="small" onClose={onClose} aria-labelledby="holds-dialog-title">
+            <ModalHeader title={cockpit.format(_("Held packages on $0"), label)} labelId="holds-dialog-title" />
+            <ModalBody>
+                <Form onSubmit={event => {
+                    event.preventDefault();
+                    addPackage();
+                }}>
+                    <FormGroup label={_("Add package")} fieldId="holds-package">
+                        <InputGroup>
+                            <InputGroupItem isFill>
+                                <TextInput
+                                    id="holds-package"
+                                    value={name}
+                                    onChange={(_event, value) => setName(value)}
+                                    validated={invalidName ? "error" : "default"}
+                                    placeholder={_("e.g. postgresql* or kernel")}
+                                />
+                            </InputGroupItem>
+                            <InputGroupItem>
+                                <Button variant="secondary" onClick={addPackage} isDisabled={!trimmed || invalidName}>
+                                    {_("Add")}
+                                </Button>
+                            </InputGroupItem>
+                        </InputGroup>
+                        <FormHelperText>
+                            <HelperText>
+                                <HelperTextItem variant={invalidName ? "error" : "default"}>
+                                    {invalidName
+                                        ? _("Package names may only contain letters, digits and . + - : _ * ?")
+                                        : _("Held packages are never installed from the dashboard. \"*\" matches any characters.")}
+                                </HelperTextItem>
+                            </HelperText>
+                        </FormHelperText>
+                    </FormGroup>
+                    <FormGroup label={_("Held packages")}>
+                        {packages.length > 0 ? (
+                            <LabelGroup numLabels={20}>
+                                {packages.map(pkg => (
+                                    <Label key={pkg} onClose={() => setPackages(packages.filter(p => p !== pkg))}>
+                                        {pkg}
+                                    </Label>
+                                ))}
+                            </LabelGroup>
+                        ) : _("No packages are held")}
+                    </FormGroup>
+                    <Checkbox
+                        id="holds-sync"
+                        label={_("Also hold them on the machine")}
+                        description={_("Uses apt-mark hold or dnf versionlock, so dependencies and other tools don't update them either.")}
+                        isChecked={sync}
+                        onChange={(_event, checked) => setSync(checked)}
+                    />
+                </Form>
+            </ModalBody>
+            <ModalFooter>
+                <Button variant="primary" onClick={() => onSave({ packages, sync })}>
+                    {_("Save")}
+                </Button>
+                <Button variant="link" onClick={onClose}>
+                    {_("Cancel")}
+                </Button>
+            </ModalFooter>
+        </Modal>
+    );
+};
@@ -0,0 +1,110 @@
+/*
+ * This file is part of Cockpit Machines Dashboard.
+ *
+ * Copyright (C) 2026
+ *
+ * Cockpit is free software; you can redistribute it and/or modify it
+ * under the terms of the GNU Lesser General Public License as published by
+ * the Free Software Foundation; either version 2.1 of the License, or
+ * (at your option) any later version.
+ */
+
+import cockpit from "cockpit";
+
+import { detectNativeManager } from "./native-backend";
+
+const _ = cockpit.gettext;
+
+/**
+ * Package holds of every machine, on the Cockpit host
+ */
+export const HOLDS_PATH = "/etc/cockpit-machines-dashboard/holds.json";
+
+/**
+ * Packages the dashboard must never update on a machine
+ */
+export interface HoldSettings {
+    /** Package names, "*" and "?" match any characters */
+    packages: string[];
+    /** Also hold the packages with apt-mark or dnf versionlock on the machine */
+    sync: boolean;
+}
+
+/**
+ * Hold settings keyed by machine key
+ */
+export type HoldsConfig = Record<string, HoldSettings>;
+
+/**
+ * Read the hold settings of every machine
+ */
+export async function readHolds(): Promise<HoldsConfig> {
+    const file = cockpit.file(HOLDS_PATH, { superuser: "try" });
+    try {
+        const content = await file.read();
+        return content ? JSON.parse(content) as HoldsConfig : {};
+    } finally {
+        file.close();
+    }
+}
+
+/**
+ * Store the hold settings of every machine
+ */
+export async function writeHolds(holds: HoldsConfig): Promise<void> {
+    await cockpit.spawn(["mkdir", "-p", HOLDS_PATH.replace(/\/[^/]*$/, "")], { superuser: "try", err: "message" });
+    const file = cockpit.file(HOLDS_PATH, { superuser: "try" });
+    try {
+        await file.replace(JSON.stringify(holds, null, 2) + "\n");
+    } finally {
+        file.close();
+    }
+}
+
+/**
+ * Get the held package patterns of a machine
+ * Rejects when the holds can't be read, so nothing is installed without them
+ */
+export async function getHeldPackages(host: string): Promise<string[]> {
+    try {
+        return (await readHolds())[host]?.packages ?? [];
+    } catch (error) {
+        throw new Error(cockpit.format(_("Could not read package holds: $0"), (error as Error).message));
+    }
+}
+
+/**
+ * Whether a package name matches one of the held patterns
+ */
+export function isHeld(name: string, patterns: string[]): boolean {
+    return patterns.some(pattern => {
+        const regex = pattern.replace(/[.+^${}()|[\]\\]/g, "\\$&").replace(/\*/g, ".*").replace(/\?/g, ".");
+        return new RegExp(`^${regex}$`).test(name);
+    });
+}
+
+/**
+ * Hold `packages` with the machine's own package manager and release the
+ * `previous` ones that are no longer listed
+ */
+export async function syncHolds(host: string, packages: string[], previous: string[]): Promise<void> {
+    const manager = await detectNativeManager(host);
+    if (!manager) {
+        throw new Error(_("No package manager supporting holds found on the machine"));
+    }
+
+    const released = previous.filter(name => !packages.includes(name));
+    const [hold, release] = manager === "apt"
+        ? [["apt-mark", "hold"], ["apt-mark", "unhold"]]
+        : [["dnf", "-q", "versionlock", "add"], ["dnf", "-q", "versionlock", "delete"]];
+
+    const options = host === "localhost"
+        ? { superuser: "require", err: "message" }
+        : { host, superuser: "require", err: "message" };
+    if (released.length > 0) {
+        await cockpit.spawn([...release, ...released], options);
+    }
+    if (packages.length > 0) {
+        await cockpit.spawn([...hold, ...packages], options);
+    }
+}
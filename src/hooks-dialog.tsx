@@ -0,0 +1,189 @@
+/*
+ * This file is part of Cockpit Machines Dashboard.
+ *
+ * Copyright (C) 2026
+ *
+ * Cockpit is free software; you can redistribute it and/or modify it
+ * under the terms of the GNU Lesser General Public License as published by
+ * the Free Software Foundation; either version 2.1 of the License, or
+ * (at your option) any later version.
+ */
+
+import cockpit from "cockpit";
+import React, { useState } from "react";
+
+import {
+    Button,
+    Checkbox,
+    CodeBlock,
+    CodeBlockCode,
+    Content,
+    Form,
+    FormGroup,
+    FormHelperText,
+    HelperText,
+    HelperTextItem,
+    Label,
+    Modal,
+    ModalBody,
+    ModalFooter,
+    ModalHeader,
+    NumberInput,
+    TextArea,
+} from "@patternfly/react-core";
+
+import { type HookRun, type HookScripts, describeHookFailure, getHookPhaseDescription } from "./hooks";
+
+const _ = cockpit.gettext;
+
+/**
+ * Dialog to edit the default update hooks, or those of one machine
+ * Saving null makes the machine use the default hooks again.
+ */
+export const HooksDialog = ({
+    label,
+    scripts,
+    defaultScripts,
+    onSave,
+    onClose,
+}: {
+    /** Machine label, null when editing the default hooks */
+    label: string | null;
+    /** The machine's own hooks, null when it uses the default ones */
+    scripts: HookScripts | null;
+    defaultScripts: HookScripts;
+    onSave: (scripts: HookScripts | null) => void;
+    onClose: () => void;
+}) => {
+    const [useDefault, setUseDefault] = useState(label !== null && scripts === null);
+    const [pre, setPre] = useState((scripts ?? defaultScripts).pre);
+    const [post, setPost] = useState((scripts ?? defaultScripts).post);
+    const [timeoutSeconds, setTimeoutSeconds] = useState((scripts ?? defaultScripts).timeoutSeconds);
+
+    return (
+        <Modal isOpen variant="medium" onClose={onClose} aria-labelledby="hooks-dialog-title">
+            <ModalHeader
+                title={label === null ? _("Default update hooks") : cockpit.format(_("Update hooks of $0"), label)}
+                labelId="hooks-dialog-title"
+                description={_("Shell scripts run as root on the machine before and after its updates are installed.")}
+            />
+            <ModalBody>
+                <Form onSubmit={event => event.preventDefault()}>
+                    {label !== null && (
+                        <Checkbox
+                            id="hooks-use-default"
+                            label={_("Use the default hooks")}
+                            isChecked={useDefault}
+                            onChange={(_event, checked) => setUseDefault(checked)}
+                        />
+                    )}
+                    <FormGroup label={_("Before updating")} fieldId="hooks-pre">
+                        <TextArea
+                            id="hooks-pre"
+                            className="hook-script"
+                            value={useDefault ? defaultScripts.pre : pre}
+                            onChange={(_event, value) => setPre(value)}
+                            isDisabled={useDefault}
+                            resizeOrientation="vertical"
+                            placeholder={_("e.g. haproxyctl disable server web/$(hostname)")}
+                        />
+                        <FormHelperText>
+                            <HelperText>
+                                <HelperTextItem>
+                                    {_("A non-zero exit status aborts the update of the machine.")}
+                                </HelperTextItem>
+                            </HelperText>
+                        </FormHelperText>
+                    </FormGroup>
+                    <FormGroup label={_("After updating")} fieldId="hooks-post">
+                        <TextArea
+                            id="hooks-post"
+                            className="hook-script"
+                            value={useDefault ? defaultScripts.post : post}
+                            onChange={(_event, value) => setPost(value)}
+                            isDisabled={useDefault}
+                            resizeOrientation="vertical"
+                        />
+                        <FormHelperText>
+                            <HelperText>
+                                <HelperTextItem>
+                                    {_("Runs even when the install failed or was cancelled. $DASHBOARD_HOOK and $DASHBOARD_HOST tell the phase and machine.")}
+                                </HelperTextItem>
+                            </HelperText>
+                        </FormHelperText>
+                    </FormGroup>
+                    <FormGroup label={_("Timeout (seconds)")} fieldId="hooks-timeout">
+                        <NumberInput
+                            id="hooks-timeout"
+                            value={useDefault ? defaultScripts.timeoutSeconds : timeoutSeconds}
+                            min={1}
+                            isDisabled={useDefault}
+                            onMinus={() => setTimeoutSeconds(Math.max(1, timeoutSeconds - 1))}
+                            onPlus={() => setTimeoutSeconds(timeoutSeconds + 1)}
+                            onChange={event => {
+                                const next = Number((event.target as HTMLInputElement).value);
+                                if (!isNaN(next)) {
+                                    setTimeoutSeconds(Math.max(1, next));
+                                }
+                            }}
+                        />
+                        <FormHelperText>
+                            <HelperText>
+                                <HelperTextItem>
+                                    {_("A script still running after this long is stopped and counts as failed.")}
+                                </HelperTextItem>
+                            </HelperText>
+                        </FormHelperText>
+                    </FormGroup>
+                </Form>
+            </ModalBody>
+            <ModalFooter>
+                <Button variant="primary" onClick={() => onSave(useDefault ? null : { pre, post, timeoutSeconds })}>
+                    {_("Save")}
+                </Button>
+                <Button variant="link" onClick={onClose}>
+                    {_("Cancel")}
+                </Button>
+            </ModalFooter>
+        </Modal>
+    );
+};
+
+/**
+ * Output of the hooks run by the last update of a machine
+ */
+export const HookOutputDialog = ({
+    label,
+    runs,
+    onClose,
+}: {
+    label: string;
+    runs: HookRun[];
+    onClose: () => void;
+}) => (
+    <Modal isOpen variant="medium" onClose={onClose} aria-labelledby="hook-output-title">
+        <ModalHeader title={cockpit.format(_("Hook output of $0"), label)} labelId="hook-output-title" />
+        <ModalBody>
+            {runs.map(run => (
+                <div key={run.phase} className="hook-run">
+                    <Content component="h4">
+                        {getHookPhaseDescription(run.phase)}
+                        {" "}
+                        <Label isCompact color={run.exitStatus === 0 ? "green" : "red"}>
+                            {run.exitStatus === 0 ? _("Succeeded") : describeHookFailure(run)}
+                        </Label>
+                        <span className="machine-details"> {run.at.toLocaleTimeString()}</span>
+                    </Content>
+                    <CodeBlock>
+                        <CodeBlockCode>{run.output || _("No output")}</CodeBlockCode>
+                    </CodeBlock>
+                </div>
+            ))}
+        </ModalBody>
+        <ModalFooter>
+            <Button variant="secondary" onClick={onClose}>
+                {_("Close")}
+            </Button>
+        </ModalFooter>
+    </Modal>
+);
@@ -0,0 +1,190 @@
+/*
+ * This file is part of Cockpit Machines Dashboard.
+ *
+ * Copyright (C) 2026
+ *
+ * Cockpit is free software; you can redistribute it and/or modify it
+ * under the terms of the GNU Lesser General Public License as published by
+ * the Free Software Foundation; either version 2.1 of the License, or
+ * (at your option) any later version.
+ */
+
+import cockpit from "cockpit";
+
+const _ = cockpit.gettext;
+
+/**
+ * Update hooks of every machine, on the Cockpit host
+ */
+export const HOOKS_PATH = "/etc/cockpit-machines-dashboard/hooks.json";
+
+/**
+ * Shell scripts run on a machine around its updates, empty for none
+ */
+export interface HookScripts {
+    /** Runs before installing; a non-zero exit status aborts the update */
+    pre: string;
+    /** Runs after installing, whether the install succeeded or not */
+    post: string;
+    /** Seconds each script may run before it is stopped and counted as failed */
+    timeoutSeconds: number;
+}
+
+export const DEFAULT_HOOK_TIMEOUT = 300;
+
+/**
+ * Default hooks, and the machines having their own
+ */
+export interface HooksConfig {
+    default: HookScripts;
+    /** Hooks keyed by machine key, replacing the default ones */
+    machines: Record<string, HookScripts>;
+}
+
+export const EMPTY_HOOKS: HooksConfig = {
+    default: { pre: "", post: "", timeoutSeconds: DEFAULT_HOOK_TIMEOUT },
+    machines: {},
+};
+
+export type HookPhase = "pre" | "post";
+
+/**
+ * Outcome of running a hook on a machine
+ */
+export interface HookRun {
+    phase: HookPhase;
+    /** Exit status of the script, null when it could not be started */
+    exitStatus: number | null;
+    /** Combined standard output and error */
+    output: string;
+    /** Why the script could not be started or did not finish */
+    error?: string;
+    at: Date;
+}
+
+/**
+ * Fill in the scripts missing from a hand-written entry
+ */
+const normalizeScripts = (scripts?: Partial<HookScripts>): HookScripts => ({
+    pre: scripts?.pre ?? "",
+    post: scripts?.post ?? "",
+    timeoutSeconds: scripts?.timeoutSeconds ?? DEFAULT_HOOK_TIMEOUT,
+});
+
+/**
+ * Read the update hooks
+ */
+export async function readHooks(): Promise<HooksConfig> {
+    const file = cockpit.file(HOOKS_PATH, { superuser: "try" });
+    try {
+        const content = await file.read();
+        if (!content) {
+            return EMPTY_HOOKS;
+        }
+
+        const parsed = JSON.parse(content) as {
+            default?: Partial<HookScripts>;
+            machines?: Record<string, Partial<HookScripts>>;
+        };
+        return {
+            default: normalizeScripts(parsed.default),
+            machines: Object.fromEntries(Object.entries(parsed.machines ?? {})
+                .map(([host, scripts]) => [host, normalizeScripts(scripts)])),
+        };
+    } finally {
+        file.close();
+    }
+}
+
+/**
+ * Store the update hooks
+ */
+export async function writeHooks(hooks: HooksConfig): Promise<void> {
+    await cockpit.spawn(["mkdir", "-p", HOOKS_PATH.replace(/\/[^/]*$/, "")], { superuser: "try", err: "message" });
+    const file = cockpit.file(HOOKS_PATH, { superuser: "try" });
+    try {
+        await file.replace(JSON.stringify(hooks, null, 2) + "\n");
+    } finally {
+        file.close();
+    }
+}
+
+/**
+ * Get the hooks that apply to a machine: its own, or the default ones
+ */
+export function getHookScripts(hooks: HooksConfig, host: string): HookScripts {
+    return hooks.machines[host] ?? hooks.default;
+}
+
+/**
+ * Run a hook script as root on a machine and capture its output
+ * The phase and machine are passed in $DASHBOARD_HOOK and $DASHBOARD_HOST.
+ * The script is stopped after `timeoutSeconds`, or when `signal` aborts.
+ */
+export async function runHook(
+    host: string,
+    phase: HookPhase,
+    script: string,
+    timeoutSeconds: number,
+    signal?: AbortSignal
+): Promise<HookRun> {
+    if (signal?.aborted) {
+        return { phase, exitStatus: null, output: "", error: _("Cancelled"), at: new Date() };
+    }
+
+    const environ = [`DASHBOARD_HOOK=${phase}`, `DASHBOARD_HOST=${host}`];
+    const proc = cockpit.spawn(["/bin/sh", "-c", script], host === "localhost"
+        ? { superuser: "require", err: "out", environ }
+        : { host, superuser: "require", err: "out", environ });
+
+    let output = "";
+    proc.stream((data: string) => {
+        output += data;
+    });
+
+    let stopReason: string | null = null;
+    const stop = (reason: string) => {
+        stopReason = reason;
+        proc.close("terminated");
+    };
+    const timer = window.setTimeout(() => stop(cockpit.format(_("Timed out after $0 seconds"), timeoutSeconds)),
+                                    timeoutSeconds * 1000);
+    const cancel = () => stop(_("Cancelled"));
+    signal?.addEventListener("abort", cancel, { once: true });
+
+    try {
+        await proc;
+        return { phase, exitStatus: 0, output, at: new Date() };
+    } catch (error) {
+        const { exit_status: exitStatus, message } = error as { exit_status?: number; message?: string };
+        if (stopReason) {
+            return { phase, exitStatus: null, output, error: stopReason, at: new Date() };
+        }
+        return exitStatus !== undefined
+            ? { phase, exitStatus, output, at: new Date() }
+            : { phase, exitStatus: null, output, error: message, at: new Date() };
+    } finally {
+        window.clearTimeout(timer);
+        signal?.removeEventListener("abort", cancel);
+    }
+}
+
+/**
+ * Describe a hook that did not exit successfully
+ */
+export function describeHookFailure(run: HookRun): string {
+    if (run.exitStatus === null) {
+        return cockpit.format(run.phase === "pre" ? _("Pre-update hook did not complete: $0") : _("Post-update hook did not complete: $0"),
+                              run.error || _("unknown error"));
+    }
+    return cockpit.format(run.phase === "pre"
+        ? _("Pre-update hook failed with exit status $0")
+        : _("Post-update hook failed with exit status $0"), run.exitStatus);
+}
+
+/**
+ * Get a human readable name for a hook phase
+ */
+export function getHookPhaseDescription(phase: HookPhase): string {
+    return phase === "pre" ? _("Pre-update hook") : _("Post-update hook");
+}
@@ -0,0 +1,91 @@
+/*
+ * This file is part of Cockpit Machines Dashboard.
+ *
+ * Copyright (C) 2026
+ *
+ * Cockpit is free software; you can redistribute it and/or modify it
+ * under the terms of the GNU Lesser General Public License as published by
+ * the Free Software Foundation; either version 2.1 of the License, or
+ * (at your option) any later version.
+ */
+
+import cockpit from "cockpit";
+import React from "react";
+
+import {
+    DescriptionListDescription,
+    DescriptionListGroup,
+    DescriptionListTerm,
+    Tooltip,
+} from "@patternfly/react-core";
+import { ExclamationTriangleIcon } from "@patternfly/react-icons";
+
+import { type DiskSpace, type HostFacts, formatUptime } from "./machines-api";
+
+const _ = cockpit.gettext;
+
+// Filesystems with less free space than this fraction are highlighted
+const LOW_DISK_RATIO = 0.1;
+
+const isLow = (disk: DiskSpace) => disk.size > 0 && disk.available / disk.size < LOW_DISK_RATIO;
+
+/**
+ * Compact rows of host facts (OS, uptime and load, disk, memory) for a machine card
+ */
+export const HostFactsGroups = ({ facts }: { facts: HostFacts }) => {
+    // /var is only listed when it is a filesystem of its own
+    const disks = facts.disks.filter((disk, index) =>
+        facts.disks.findIndex(other => other.mount === disk.mount) === index
+    );
+
+    return (
+        <>
+            {facts.os && (
+                <DescriptionListGroup>
+                    <DescriptionListTerm>{_("OS")}</DescriptionListTerm>
+                    <DescriptionListDescription className="machine-details">{facts.os}</DescriptionListDescription>
+                </DescriptionListGroup>
+            )}
+            {facts.uptimeSeconds !== null && (
+                <DescriptionListGroup>
+                    <DescriptionListTerm>{_("Uptime")}</DescriptionListTerm>
+                    <DescriptionListDescription className="machine-details">
+                        {formatUptime(facts.uptimeSeconds)}
+                        {facts.load.length > 0 &&
+                            " · " + cockpit.format(_("load $0"), facts.load.map(load => load.toFixed(2)).join(" "))}
+                    </DescriptionListDescription>
+                </DescriptionListGroup>
+            )}
+            {disks.length > 0 && (
+                <DescriptionListGroup>
+                    <DescriptionListTerm>{_("Disk free")}</DescriptionListTerm>
+                    <DescriptionListDescription className="machine-details">
+                        {disks.map((disk, index) => (
+                            <span key={disk.path} className={isLow(disk) ? "host-fact-low" : undefined}>
+                                {index > 0 && " · "}
+                                {isLow(disk) && (
+                                    <Tooltip content={_("Less than 10% free")}>
+                                        <ExclamationTriangleIcon />
+                                    </Tooltip>
+                                )}
+                                {cockpit.format(_("$0 $1 of $2"), disk.path,
+                                                cockpit.format_bytes(disk.available), cockpit.format_bytes(disk.size))}
+                            </span>
+                        ))}
+                    </DescriptionListDescription>
+                </DescriptionListGroup>
+            )}
+            {facts.memoryTotal !== null && (
+                <DescriptionListGroup>
+                    <DescriptionListTerm>{_("Memory")}</DescriptionListTerm>
+                    <DescriptionListDescription className="machine-details">
+                        {facts.memoryAvailable !== null
+                            ? cockpit.format(_("$0 free of $1"),
+                                             cockpit.format_bytes(facts.memoryAvailable), cockpit.format_bytes(facts.memoryTotal))
+                            : cockpit.format_bytes(facts.memoryTotal)}
+                    </DescriptionListDescription>
+                </DescriptionListGroup>
+            )}
+        </>
+    );
+};
@@ -11,17 +11,307 @@
 
 import cockpit from "cockpit";
 
+import {
+    type RetryOptions,
+    PackageKitError,
+    getTransactionRoles,
+    isCancelled,
+    isPackageKitAvailable,
+    runTransaction,
+    withRetry,
+} from "./packagekit";
+import {
+    type NativeManager,
+    type NativeUpdate,
+    detectNativeManager,
+    getNativeDownloadSize,
+    listNativeUpdates,
+    refreshNativeCache,
+    runNativeInstall,
+    simulateNativeInstall,
+} from "./native-backend";
+import { type AppUpdate, installAppUpdates, listAppUpdates } from "./app-updates";
+import { getHeldPackages, isHeld } from "./holds";
+
 const _ = cockpit.gettext;
 
+/**
+ * PackageKit info enum (PK_INFO_ENUM_*)
+ */
+export const PkInfo = {
+    UNKNOWN: 0,
+    INSTALLED: 1,
+    AVAILABLE: 2,
+    LOW: 3,
+    ENHANCEMENT: 4,
+    NORMAL: 5,
+    BUGFIX: 6,
+    IMPORTANT: 7,
+    SECURITY: 8,
+    BLOCKED: 9,
+    DOWNLOADING: 10,
+    UPDATING: 11,
+    INSTALLING: 12,
+    REMOVING: 13,
+    CLEANUP: 14,
+    OBSOLETING: 15,
+    COLLECTION_INSTALLED: 16,
+    COLLECTION_AVAILABLE: 17,
+    FINISHED: 18,
+    REINSTALLING: 19,
+    DOWNGRADING: 20,
+    PREPARING: 21,
+    DECOMPRESSING: 22,
+    UNTRUSTED: 23,
+    TRUSTED: 24,
+    UNAVAILABLE: 25,
+    CRITICAL: 26,
+} as const;
+
+/**
+ * Update categories derived from the PackageKit info type, most severe first
+ */
+export const UPDATE_SEVERITIES = [
+    "security",
+    "critical",
+    "important",
+    "bugfix",
+    "enhancement",
+    "normal",
+    "low",
+    "blocked",
+] as const;
+
+export type UpdateSeverity = typeof UPDATE_SEVERITIES[number];
+
+export type SeverityCounts = Record<UpdateSeverity, number>;
+
+/**
+ * Interface representing a single pending package update
+ */
+export interface PackageUpdate {
+    id: string;
+    name: string;
+    version: string;
+    arch: string;
+    repo: string;
+    info: number;
+    summary: string;
+}
+
+/**
+ * Reboot state reported by the host itself
+ */
+export interface RebootStatus {
+    needed: boolean;
+    reasons: string[];
+    runningKernel: string | null;
+    newestKernel: string | null;
+}
+
+/**
+ * Free space of a filesystem, in bytes
+ */
+export interface DiskSpace {
+    /** Path asked for, e.g. "/var" */
+    path: string;
+    /** Mount point the path lives on */
+    mount: string;
+    size: number;
+    available: number;
+}
+
+/**
+ * Health facts of a host, collected with each update check
+ */
+export interface HostFacts {
+    /** Operating system name and version, from /etc/os-release */
+    os: string | null;
+    kernel: string | null;
+    uptimeSeconds: number | null;
+    /** 1, 5 and 15 minute load averages */
+    load: number[];
+    disks: DiskSpace[];
+    /** Memory in bytes, null when unknown */
+    memoryTotal: number | null;
+    memoryAvailable: number | null;
+}
+
 /**
  * Interface representing update information for a machine
  */
 export interface UpdateInfo {
     total: number;
     security: number;
+    severity: SeverityCounts;
+    packages: PackageUpdate[];
+    /** Pending Flatpak and Snap updates, counted apart from the system packages */
+    apps: AppUpdate[];
+    rebootStatus: RebootStatus | null;
+    facts: HostFacts | null;
+    lastUpdated: Date | null;
     loading: boolean;
     error: string | null;
     lastChecked: Date | null;
+    /** Suggested action when `error` comes from PackageKit */
+    errorHint?: string;
+    /** Set when the info was restored from the status cache rather than queried */
+    cached?: boolean;
+    /** Backend the updates were read through */
+    backend?: BackendId;
+}
+
+/**
+ * Create an empty UpdateInfo, optionally overriding some fields
+ */
+export function emptyUpdateInfo(overrides: Partial<UpdateInfo> = {}): UpdateInfo {
+    return {
+        total: 0,
+        security: 0,
+        severity: countBySeverity([]),
+        packages: [],
+        apps: [],
+        rebootStatus: null,
+        facts: null,
+        lastUpdated: null,
+        loading: false,
+        error: null,
+        lastChecked: null,
+        ...overrides
+    };
+}
+
+/**
+ * Split a PackageKit package ID ("name;version;arch;data") into a PackageUpdate
+ */
+export function parsePackageId(packageId: string, info = 0, summary = ""): PackageUpdate {
+    const [name = "", version = "", arch = "", repo = ""] = packageId.split(";");
+    return { id: packageId, name, version, arch, repo, info, summary };
+}
+
+/**
+ * Map a PackageKit info type to an update category
+ * Plain "available"/"unknown" updates, as reported by several backends, count as normal
+ */
+export function getUpdateSeverity(info: number): UpdateSeverity {
+    switch (info) {
+    case PkInfo.SECURITY:
+        return "security";
+    case PkInfo.CRITICAL:
+        return "critical";
+    case PkInfo.IMPORTANT:
+        return "important";
+    case PkInfo.BUGFIX:
+        return "bugfix";
+    case PkInfo.ENHANCEMENT:
+        return "enhancement";
+    case PkInfo.LOW:
+        return "low";
+    case PkInfo.BLOCKED:
+        return "blocked";
+    default:
+        return "normal";
+    }
+}
+
+/**
+ * Count packages per update category
+ */
+export function countBySeverity(packages: PackageUpdate[]): SeverityCounts {
+    const counts = Object.fromEntries(UPDATE_SEVERITIES.map(severity => [severity, 0])) as SeverityCounts;
+    for (const pkg of packages) {
+        counts[getUpdateSeverity(pkg.info)]++;
+    }
+    return counts;
+}
+
+/**
+ * Get a human readable label for an update category
+ */
+export function getSeverityDescription(severity: UpdateSeverity): string {
+    switch (severity) {
+    case "security":
+        return _("Security");
+    case "critical":
+        return _("Critical");
+    case "important":
+        return _("Important");
+    case "bugfix":
+        return _("Bug fix");
+    case "enhancement":
+        return _("Enhancement");
+    case "low":
+        return _("Low");
+    case "blocked":
+        return _("Blocked");
+    default:
+        return _("Normal");
+    }
+}
+
+/**
+ * Which pending updates an install applies, from the most to the least restrictive
+ */
+export const INSTALL_POLICIES = [
+    "security",
+    "important",
+    "bugfix",
+    "all",
+] as const;
+
+export type InstallPolicy = typeof INSTALL_POLICIES[number];
+
+/**
+ * Least severe update category each policy still installs
+ */
+const POLICY_THRESHOLDS: Record<InstallPolicy, UpdateSeverity> = {
+    security: "security",
+    important: "important",
+    bugfix: "bugfix",
+    all: "low",
+};
+
+/**
+ * Whether an update with the given PackageKit info type falls under a policy
+ * Blocked updates cannot be installed and never match
+ */
+export function matchesPolicy(info: number, policy: InstallPolicy): boolean {
+    const severity = getUpdateSeverity(info);
+    return severity !== "blocked" &&
+        UPDATE_SEVERITIES.indexOf(severity) <= UPDATE_SEVERITIES.indexOf(POLICY_THRESHOLDS[policy]);
+}
+
+/**
+ * Get the pending updates an install with the given policy would apply
+ */
+export function filterByPolicy(packages: PackageUpdate[], policy: InstallPolicy): PackageUpdate[] {
+    return packages.filter(pkg => matchesPolicy(pkg.info, policy));
+}
+
+/**
+ * Count the updates an install with the given policy would apply, including
+ * Flatpak and Snap updates, which are only installed with the "all" policy
+ * Packages matching the `held` patterns are never installed
+ */
+export function countPolicyUpdates(updates: UpdateInfo, policy: InstallPolicy, held: string[] = []): number {
+    return filterByPolicy(updates.packages, policy).filter(pkg => !isHeld(pkg.name, held)).length +
+        (policy === "all" ? updates.apps.length : 0);
+}
+
+/**
+ * Get a human readable label for an install policy
+ */
+export function getPolicyDescription(policy: InstallPolicy): string {
+    switch (policy) {
+    case "security":
+        return _("Security only");
+    case "important":
+        return _("Security and important");
+    case "bugfix":
+        return _("Bug fixes and above");
+    default:
+        return _("Everything");
+    }
 }
 
 /**
@@ -164,286 +454,984 @@ export function subscribeMachines(callback: (machines: Machine[]) => void): () =
 }
 
 /**
- * Get PackageKit updates for a specific host
+ * Get the pending updates for a specific host
+ * Aborting `signal` cancels the listing, which then reports an error.
  */
-export async function getUpdatesForHost(host: string): Promise<UpdateInfo> {
-    const result: UpdateInfo = {
-        total: 0,
-        security: 0,
-        loading: false,
-        error: null,
-        lastChecked: new Date()
-    };
+export async function getUpdatesForHost(host: string, signal?: AbortSignal): Promise<UpdateInfo> {
+    const result = emptyUpdateInfo({ lastChecked: new Date() });
+    
+    // Read the reboot state, host facts and application updates while the package manager is busy
+    const rebootStatus = getRebootStatus(host);
+    const facts = getHostFacts(host);
+    const apps = listAppUpdates(host).catch(error => {
+        console.warn(`Failed to list Flatpak and Snap updates of ${host}:`, error);
+        return [] as AppUpdate[];
+    });
+    let lastUpdated: Promise<Date | null> = Promise.resolve(null);
     
     try {
-        // Connect to the host's PackageKit
-        const options = host === "localhost" ? {} : { host };
-        const pkProxy = cockpit.dbus("org.freedesktop.PackageKit", options);
-        
-        // Create transaction for getting updates
-        const transactionPath = await pkProxy.call(
-            "/org/freedesktop/PackageKit",
-            "org.freedesktop.PackageKit",
-            "CreateTransaction",
-            []
-        ) as [string];
-        
-        if (!transactionPath || !transactionPath[0]) {
-            throw new Error(_("Failed to create PackageKit transaction"));
+        const backend = await getBackend(host);
+        result.backend = backend.id;
+        
+        // Only PackageKit keeps a transaction log
+        if (backend.id === "packagekit") {
+            lastUpdated = getLastUpdated(host);
         }
         
-        const transaction = pkProxy.proxy(
-            "org.freedesktop.PackageKit.Transaction",
-            transactionPath[0]
-        );
+        const updates = await backend.listUpdates(host, { signal });
         
-        await transaction.wait();
+        result.packages = updates;
+        result.total = updates.length;
+        result.severity = countBySeverity(updates);
+        result.security = result.severity.security;
         
-        // Subscribe to Package signals
-        const updates: { name: string; severity: string }[] = [];
+    } catch (error) {
+        const err = error as Error;
+        result.error = err.message || _("Failed to check for updates");
+        result.errorHint = getErrorHint(err);
+    }
+    
+    result.apps = await apps;
+    result.rebootStatus = await rebootStatus;
+    result.facts = await facts;
+    result.lastUpdated = await lastUpdated;
+    return result;
+}
+
+/**
+ * Shell script printing key=value lines describing the reboot state:
+ * Debian-family /var/run/reboot-required, RHEL-family `needs-restarting -r`,
+ * and the running vs. newest installed kernel
+ */
+const REBOOT_STATUS_SCRIPT = `
+echo "running=$(uname -r)"
+echo "newest=$(ls /boot/vmlinuz-* 2>/dev/null | sed 's|^/boot/vmlinuz-||' | grep -v rescue | sort -V | tail -n1)"
+if [ -e /var/run/reboot-required ]; then
+    echo "reboot-required=$(cat /var/run/reboot-required.pkgs 2>/dev/null | sort -u | tr '\\n' ' ')"
+fi
+if command -v needs-restarting >/dev/null 2>&1; then
+    needs-restarting -r >/dev/null 2>&1
+    echo "needs-restarting=$?"
+fi
+`;
+
+/**
+ * Read whether a host needs a reboot, independently of installs done from the dashboard
+ * Returns null when the state can't be determined
+ */
+export async function getRebootStatus(host: string): Promise<RebootStatus | null> {
+    try {
+        const options = host === "localhost" ? { superuser: "try" } : { host, superuser: "try" };
+        const output = await cockpit.spawn(["/bin/sh", "-c", REBOOT_STATUS_SCRIPT], options);
         
-        const packageSignal = pkProxy.subscribe(
-            { path: transactionPath[0], interface: "org.freedesktop.PackageKit.Transaction", member: "Package" },
-            (_path: string, _iface: string, _signal: string, args: unknown[]) => {
-                const info = args[0] as number;
-                const packageId = args[1] as string;
-                const name = packageId.split(";")[0];
-                
-                // Info values: PK_INFO_ENUM_SECURITY = 8
-                const isSecurity = info === 8;
-                updates.push({ name, severity: isSecurity ? "security" : "normal" });
+        const values: Record<string, string> = {};
+        for (const line of output.split("\n")) {
+            const index = line.indexOf("=");
+            if (index > 0) {
+                values[line.slice(0, index)] = line.slice(index + 1).trim();
             }
-        );
+        }
         
-        // Wait for completion
-        await new Promise<void>((resolve, reject) => {
-            const finishedSignal = pkProxy.subscribe(
-                { path: transactionPath[0], interface: "org.freedesktop.PackageKit.Transaction", member: "Finished" },
-                () => {
-                    finishedSignal.remove();
-                    resolve();
-                }
-            );
-            
-            const errorSignal = pkProxy.subscribe(
-                { path: transactionPath[0], interface: "org.freedesktop.PackageKit.Transaction", member: "ErrorCode" },
-                (_path: string, _iface: string, _signal: string, args: unknown[]) => {
-                    errorSignal.remove();
-                    reject(new Error(args[1] as string));
-                }
-            );
-            
-            // Call GetUpdates (0 = FILTER_NONE)
-            (transaction as unknown as { GetUpdates: (filter: number) => Promise<void> }).GetUpdates(0).catch(reject);
-        });
+        const status: RebootStatus = {
+            needed: false,
+            reasons: [],
+            runningKernel: values.running || null,
+            newestKernel: values.newest || null,
+        };
+        
+        if ("reboot-required" in values) {
+            status.reasons.push(values["reboot-required"]
+                ? cockpit.format(_("Required by $0"), values["reboot-required"])
+                : _("/var/run/reboot-required is present"));
+        }
         
-        packageSignal.remove();
+        // needs-restarting -r exits with 1 when a reboot is needed
+        if (values["needs-restarting"] === "1") {
+            status.reasons.push(_("needs-restarting reports core libraries or services were updated"));
+        }
         
-        result.total = updates.length;
-        result.security = updates.filter(u => u.severity === "security").length;
+        if (status.runningKernel && status.newestKernel && status.runningKernel !== status.newestKernel) {
+            status.reasons.push(cockpit.format(_("Running kernel $0, newest installed is $1"),
+                                               status.runningKernel, status.newestKernel));
+        }
         
+        status.needed = status.reasons.length > 0;
+        return status;
     } catch (error) {
-        const err = error as Error;
-        // Don't treat "service not available" as an error - just no updates info
-        if (err.message?.includes("not-found") || err.message?.includes("ServiceUnknown")) {
-            result.error = _("PackageKit not available");
-        } else {
-            result.error = err.message || _("Failed to check for updates");
+        console.warn(`Failed to read reboot status of ${host}:`, error);
+        return null;
+    }
+}
+
+/**
+ * Shell script printing key=value lines with the kernel, uptime, load,
+ * memory (in KiB) and the filesystems of / and /var ("path mount size available" in KiB)
+ */
+const HOST_FACTS_SCRIPT = `
+echo "kernel=$(uname -r)"
+echo "uptime=$(cut -d' ' -f1 /proc/uptime)"
+echo "load=$(cut -d' ' -f1-3 /proc/loadavg)"
+awk '/^MemTotal:/ { print "memory-total=" $2 } /^MemAvailable:/ { print "memory-available=" $2 }' /proc/meminfo
+for path in / /var; do
+    df -P -k "$path" 2>/dev/null | awk -v path="$path" 'NR == 2 { print "disk=" path " " $6 " " $2 " " $4 }'
+done
+`;
+
+/**
+ * Parse /etc/os-release into its PRETTY_NAME, or NAME and VERSION_ID
+ */
+function parseOsRelease(content: string | null): string | null {
+    const values: Record<string, string> = {};
+    for (const line of (content || "").split("\n")) {
+        const match = line.match(/^([A-Z_]+)=(.*)$/);
+        if (match) {
+            values[match[1]] = match[2].replace(/^(["'])(.*)\1$/, "$2");
         }
     }
+    return values.PRETTY_NAME || [values.NAME, values.VERSION_ID].filter(Boolean).join(" ") || null;
+}
+
+/**
+ * Collect OS, kernel, uptime, load, disk and memory facts of a host
+ * Returns null when the host can't be queried
+ */
+export async function getHostFacts(host: string): Promise<HostFacts | null> {
+    const options = host === "localhost" ? {} : { host };
+    const file = cockpit.file("/etc/os-release", options);
     
-    return result;
+    try {
+        const [osRelease, output]: [string | null, string] = await Promise.all([
+            file.read().catch(() => null),
+            cockpit.spawn(["/bin/sh", "-c", HOST_FACTS_SCRIPT], options),
+        ]);
+        
+        const facts: HostFacts = {
+            os: parseOsRelease(osRelease),
+            kernel: null,
+            uptimeSeconds: null,
+            load: [],
+            disks: [],
+            memoryTotal: null,
+            memoryAvailable: null,
+        };
+        
+        for (const line of output.split("\n")) {
+            const index = line.indexOf("=");
+            if (index <= 0) continue;
+            const key = line.slice(0, index);
+            const value = line.slice(index + 1).trim();
+            
+            switch (key) {
+            case "kernel":
+                facts.kernel = value || null;
+                break;
+            case "uptime":
+                facts.uptimeSeconds = Number(value) || null;
+                break;
+            case "load":
+                facts.load = value.split(" ").map(Number).filter(n => !isNaN(n));
+                break;
+            case "memory-total":
+                facts.memoryTotal = Number(value) * 1024 || null;
+                break;
+            case "memory-available":
+                facts.memoryAvailable = Number(value) * 1024 || null;
+                break;
+            case "disk": {
+                const [path, mount, size, available] = value.split(" ");
+                facts.disks.push({ path, mount, size: Number(size) * 1024, available: Number(available) * 1024 });
+                break;
+            }
+            }
+        }
+        
+        return facts;
+    } catch (error) {
+        console.warn(`Failed to read host facts of ${host}:`, error);
+        return null;
+    } finally {
+        file.close();
+    }
+}
+
+/**
+ * Format an uptime in seconds as days and hours, or hours and minutes
+ */
+export function formatUptime(seconds: number): string {
+    const days = Math.floor(seconds / 86400);
+    const hours = Math.floor(seconds % 86400 / 3600);
+    const minutes = Math.floor(seconds % 3600 / 60);
+    
+    if (days > 0) {
+        return cockpit.format(_("$0 d $1 h"), days, hours);
+    }
+    return cockpit.format(_("$0 h $1 min"), hours, minutes);
+}
+
+/**
+ * Result of an update installation on a host
+ */
+export interface InstallResult {
+    success: boolean;
+    error?: string;
+    rebootRequired?: boolean;
+    /** Set when the install was cancelled through its AbortSignal */
+    cancelled?: boolean;
+    /** Package IDs the install was asked for */
+    packageIds?: string[];
+    /** Resolved package changes, only set for simulated installs */
+    changes?: ChangeSet;
+    /** Suggested action when `error` comes from PackageKit */
+    errorHint?: string;
+    /** A problem that did not stop the install, e.g. applications that could not be listed */
+    warning?: string;
+}
+
+/**
+ * Get the suggested action for an error, when it is a known PackageKit error
+ */
+export function getErrorHint(error: unknown): string | undefined {
+    return error instanceof PackageKitError && error.hint ? error.hint : undefined;
+}
+
+/**
+ * Kinds of package change a transaction can resolve to
+ */
+export const CHANGE_KINDS = [
+    "install",
+    "update",
+    "remove",
+    "obsolete",
+    "downgrade",
+    "reinstall",
+] as const;
+
+export type ChangeKind = typeof CHANGE_KINDS[number];
+
+export type ChangeSet = Record<ChangeKind, PackageUpdate[]>;
+
+/**
+ * Create a change set with no changes
+ */
+function emptyChangeSet(): ChangeSet {
+    return Object.fromEntries(CHANGE_KINDS.map(kind => [kind, [] as PackageUpdate[]])) as ChangeSet;
 }
 
 /**
- * Install all updates on a specific host
+ * Map the info type of a simulated Package signal to a change kind
+ */
+function getChangeKind(info: number): ChangeKind | null {
+    switch (info) {
+    case PkInfo.INSTALLING:
+        return "install";
+    case PkInfo.UPDATING:
+        return "update";
+    case PkInfo.REMOVING:
+        return "remove";
+    case PkInfo.OBSOLETING:
+        return "obsolete";
+    case PkInfo.DOWNGRADING:
+        return "downgrade";
+    case PkInfo.REINSTALLING:
+        return "reinstall";
+    default:
+        return null;
+    }
+}
+
+/**
+ * Get a human readable label for a change kind
+ */
+export function getChangeKindDescription(kind: ChangeKind): string {
+    switch (kind) {
+    case "install":
+        return _("New install");
+    case "update":
+        return _("Update");
+    case "remove":
+        return _("Removal");
+    case "obsolete":
+        return _("Obsoleted");
+    case "downgrade":
+        return _("Downgrade");
+    default:
+        return _("Reinstall");
+    }
+}
+
+/**
+ * PackageKit transaction flags (bitfield)
+ */
+const PK_TRANSACTION_FLAG_ONLY_TRUSTED = 1 << 1;
+const PK_TRANSACTION_FLAG_SIMULATE = 1 << 2;
+
+/**
+ * PackageKit restart enum values that need a reboot, reported by RequireRestart
+ */
+const PK_RESTART_SYSTEM = 4;
+const PK_RESTART_SECURITY_SYSTEM = 6;
+
+/**
+ * Install the updates matching `policy` on a specific host, except held packages
+ * Aborting `signal` cancels the install; with `simulate` nothing is installed
+ * and the result carries the resolved change set instead
  */
 export async function installUpdatesOnHost(
     host: string,
     onProgress?: (percent: number, status: string) => void,
-    securityOnly?: boolean
-): Promise<{ success: boolean; error?: string; rebootRequired?: boolean }> {
+    policy: InstallPolicy = "all",
+    signal?: AbortSignal,
+    simulate = false
+): Promise<InstallResult> {
     try {
-        const options = host === "localhost" ? {} : { host };
-        const pkProxy = cockpit.dbus("org.freedesktop.PackageKit", options);
-        
-        // Create transaction
-        const transactionPath = await pkProxy.call(
-            "/org/freedesktop/PackageKit",
-            "org.freedesktop.PackageKit",
-            "CreateTransaction",
-            []
-        ) as [string];
-        
-        if (!transactionPath || !transactionPath[0]) {
-            throw new Error(_("Failed to create PackageKit transaction"));
-        }
-        
-        const transaction = pkProxy.proxy(
-            "org.freedesktop.PackageKit.Transaction",
-            transactionPath[0]
-        );
-        
-        await transaction.wait();
+        const backend = await getBackend(host);
         
         // First, get the list of updates to install
-        const packageIds: string[] = [];
-        
-        pkProxy.subscribe(
-            { path: transactionPath[0], interface: "org.freedesktop.PackageKit.Transaction", member: "Package" },
-            (_path: string, _iface: string, _signal: string, args: unknown[]) => {
-                const packageId = args[1] as string;
-                if (packageId) {
-                    packageIds.push(packageId);
-                }
+        const packageIds = await getPolicyPackageIds(host, policy, { signal, onRetry: retryReporter(onProgress) });
+        // Applications carry no severity, only installing everything includes them
+        // Applications that can't be listed don't hold up the system packages
+        let apps: AppUpdate[] = [];
+        let warning: string | undefined;
+        if (policy === "all") {
+            try {
+                apps = await listAppUpdates(host);
+            } catch (error) {
+                warning = cockpit.format(_("Could not list Flatpak and Snap updates: $0"), (error as Error).message);
             }
-        );
+        }
         
-        // Get the list of updates
-        await new Promise<void>((resolve, reject) => {
-            pkProxy.subscribe(
-                { path: transactionPath[0], interface: "org.freedesktop.PackageKit.Transaction", member: "Finished" },
-                () => resolve()
-            );
-            pkProxy.subscribe(
-                { path: transactionPath[0], interface: "org.freedesktop.PackageKit.Transaction", member: "ErrorCode" },
-                (_path: string, _iface: string, _signal: string, args: unknown[]) => {
-                    reject(new Error(args[1] as string));
-                }
-            );
-            
-            // GetUpdates to get the package IDs
-            const getUpdatesFlags = securityOnly ? 4 : 0;
-            (transaction as unknown as { GetUpdates: (flags: number) => Promise<void> })
-                .GetUpdates(getUpdatesFlags).catch(reject);
-        });
+        if (signal?.aborted) {
+            return { success: false, cancelled: true, error: _("Update cancelled") };
+        }
         
         // If no updates found, return early
-        if (packageIds.length === 0) {
-            return { success: true, rebootRequired: false };
+        if (packageIds.length === 0 && apps.length === 0) {
+            return { success: true, rebootRequired: false, changes: simulate ? emptyChangeSet() : undefined, warning };
         }
         
-        // Create a new transaction for installation
-        const installTransactionPath = await pkProxy.call(
-            "/org/freedesktop/PackageKit",
-            "org.freedesktop.PackageKit",
-            "CreateTransaction",
-            []
-        ) as [string];
-        
-        if (!installTransactionPath || !installTransactionPath[0]) {
-            throw new Error(_("Failed to create PackageKit transaction"));
+        const result: InstallResult = packageIds.length > 0
+            ? await backend.installPackages(host, packageIds, onProgress, signal, simulate)
+            : { success: true, rebootRequired: false, packageIds: [], changes: simulate ? emptyChangeSet() : undefined };
+        result.warning = warning;
+        if (!result.success || apps.length === 0) {
+            return result;
         }
         
-        const installTransaction = pkProxy.proxy(
-            "org.freedesktop.PackageKit.Transaction",
-            installTransactionPath[0]
-        );
-        
-        await installTransaction.wait();
+        const appPackages = apps.map(appToPackage);
+        result.packageIds = [...result.packageIds ?? [], ...appPackages.map(pkg => pkg.id)];
+        if (simulate) {
+            result.changes?.update.push(...appPackages);
+            return result;
+        }
         
-        // Subscribe to progress
-        if (onProgress) {
-            pkProxy.subscribe(
-                { path: installTransactionPath[0], interface: "org.freedesktop.PackageKit.Transaction", member: "Percentage" },
-                (_path: string, _iface: string, _signal: string, args: unknown[]) => {
-                    const percent = args[0] as number;
-                    if (percent <= 100) {
-                        onProgress(percent, _("Installing updates..."));
-                    }
-                }
-            );
-            
-            pkProxy.subscribe(
-                { path: installTransactionPath[0], interface: "org.freedesktop.PackageKit.Transaction", member: "ItemProgress" },
-                (_path: string, _iface: string, _signal: string, args: unknown[]) => {
-                    const packageId = args[0] as string;
-                    const percent = args[1] as number;
-                    const name = packageId.split(";")[0];
-                    if (percent <= 100) {
-                        onProgress(percent, cockpit.format(_("Updating $0..."), name));
-                    }
-                }
-            );
+        if (!await installAppUpdates(host, apps, onProgress, signal)) {
+            return { success: false, cancelled: true, error: _("Update cancelled"), packageIds: result.packageIds };
         }
+        return result;
         
-        let rebootRequired = false;
-        
-        // Wait for completion
-        await new Promise<void>((resolve, reject) => {
-            pkProxy.subscribe(
-                { path: installTransactionPath[0], interface: "org.freedesktop.PackageKit.Transaction", member: "Finished" },
-                (_path: string, _iface: string, _signal: string, args: unknown[]) => {
-                    // exit value 1 means reboot required
-                    const exitCode = args[0] as number;
-                    rebootRequired = exitCode === 1;
-                    resolve();
-                }
-            );
-            
-            pkProxy.subscribe(
-                { path: installTransactionPath[0], interface: "org.freedesktop.PackageKit.Transaction", member: "ErrorCode" },
-                (_path: string, _iface: string, _signal: string, args: unknown[]) => {
-                    reject(new Error(args[1] as string));
-                }
-            );
-            
-            // UpdatePackages: installs the specific packages we found
-            // Flags: 1 = ONLY_TRUSTED
-            (installTransaction as unknown as { UpdatePackages: (flags: number, packages: string[]) => Promise<void> })
-                .UpdatePackages(1, packageIds).catch(reject);
-        });
+    } catch (error) {
+        const err = error as Error;
+        if (signal?.aborted) {
+            return { success: false, cancelled: true, error: _("Update cancelled") };
+        }
+        return { success: false, error: err.message || _("Failed to install updates"), errorHint: getErrorHint(err) };
+    }
+}
+
+/**
+ * Get the IDs of the pending updates an install with the given policy would
+ * apply, leaving out held packages; the policy is applied on their info type
+ */
+export async function getPolicyPackageIds(
+    host: string,
+    policy: InstallPolicy,
+    retry?: Partial<RetryOptions>
+): Promise<string[]> {
+    const backend = await getBackend(host);
+    const updates = await backend.listUpdates(host, retry);
+    const held = await getHeldPackages(host);
+    return filterByPolicy(updates, policy)
+        .filter(pkg => !isHeld(pkg.name, held))
+        .map(pkg => pkg.id);
+}
+
+/**
+ * Install an explicit list of package IDs on a specific host, skipping held packages
+ * Aborting `signal` cancels the install; `simulate` works as for
+ * installUpdatesOnHost
+ */
+export async function installPackagesOnHost(
+    host: string,
+    requestedIds: string[],
+    onProgress?: (percent: number, status: string) => void,
+    signal?: AbortSignal,
+    simulate = false
+): Promise<InstallResult> {
+    let packageIds = requestedIds;
+    try {
+        const held = await getHeldPackages(host);
+        packageIds = requestedIds.filter(id => !isHeld(parsePackageId(id).name, held));
         
-        return { success: true, rebootRequired };
+        if (packageIds.length === 0) {
+            return { success: true, rebootRequired: false, changes: simulate ? emptyChangeSet() : undefined };
+        }
         
+        const backend = await getBackend(host);
+        return await backend.installPackages(host, packageIds, onProgress, signal, simulate);
     } catch (error) {
         const err = error as Error;
-        return { success: false, error: err.message || _("Failed to install updates") };
+        if (signal?.aborted) {
+            return { success: false, cancelled: true, error: _("Update cancelled"), packageIds };
+        }
+        return { success: false, error: err.message || _("Failed to install updates"), errorHint: getErrorHint(err) };
     }
 }
 
 /**
- * Refresh package cache on a host
+ * Show a Flatpak or Snap update as a package whose repository is its source
  */
-export async function refreshPackageCache(host: string): Promise<void> {
-    const options = host === "localhost" ? {} : { host };
-    const pkProxy = cockpit.dbus("org.freedesktop.PackageKit", options);
+function appToPackage(app: AppUpdate): PackageUpdate {
+    return parsePackageId([app.id, app.version, "", app.source].join(";"), PkInfo.NORMAL, app.origin);
+}
+
+/**
+ * Report automatic retries through an install progress callback
+ */
+function retryReporter(onProgress?: (percent: number, status: string) => void) {
+    return (error: PackageKitError, attempt: number, delay: number) => {
+        onProgress?.(0, cockpit.format(_("$0, retrying in $1 s (attempt $2)"), error.message, Math.round(delay / 1000), attempt + 1));
+    };
+}
+
+/**
+ * Run an UpdatePackages transaction for the given package IDs
+ */
+async function runUpdatePackages(
+    host: string,
+    packageIds: string[],
+    onProgress?: (percent: number, status: string) => void,
+    signal?: AbortSignal,
+    simulate = false
+): Promise<InstallResult> {
+    if (signal?.aborted) {
+        return { success: false, cancelled: true, error: _("Update cancelled"), packageIds };
+    }
     
-    const transactionPath = await pkProxy.call(
-        "/org/freedesktop/PackageKit",
-        "org.freedesktop.PackageKit",
-        "CreateTransaction",
-        []
-    ) as [string];
+    // A simulated transaction reports every package it would touch
+    let changes = emptyChangeSet();
+    let rebootRequired = false;
+    
+    const signals: Record<string, (args: unknown[]) => void> = {
+        RequireRestart: args => {
+            const restart = args[0] as number;
+            if (restart === PK_RESTART_SYSTEM || restart === PK_RESTART_SECURITY_SYSTEM) {
+                rebootRequired = true;
+            }
+        },
+    };
+    
+    // Once packages are being changed a retry would run on a half-updated system
+    let changing = false;
+    signals.Package = args => {
+        const kind = getChangeKind(args[0] as number);
+        if (kind && simulate) {
+            changes[kind].push(parsePackageId(args[1] as string, args[0] as number, args[2] as string));
+        } else if (kind || args[0] === PkInfo.CLEANUP) {
+            changing = true;
+        }
+    };
     
-    if (!transactionPath || !transactionPath[0]) {
-        throw new Error(_("Failed to create PackageKit transaction"));
+    if (onProgress) {
+        signals.Percentage = args => {
+            const percent = args[0] as number;
+            if (percent <= 100) {
+                onProgress(percent, _("Installing updates..."));
+            }
+        };
+        signals.ItemProgress = args => {
+            const name = (args[0] as string).split(";")[0];
+            const percent = args[1] as number;
+            if (percent <= 100) {
+                onProgress(percent, cockpit.format(_("Updating $0..."), name));
+            }
+        };
     }
     
-    const transaction = pkProxy.proxy(
-        "org.freedesktop.PackageKit.Transaction",
-        transactionPath[0]
-    );
+    // UpdatePackages: installs the specific packages we found
+    // Only lock and network errors are retried, and only before any package changed
+    const flags = PK_TRANSACTION_FLAG_ONLY_TRUSTED | (simulate ? PK_TRANSACTION_FLAG_SIMULATE : 0);
+    const result = await withRetry(() => {
+        changes = emptyChangeSet();
+        return runTransaction(host, "UpdatePackages", [flags, packageIds], { signals, signal });
+    }, { signal, canRetry: () => !changing, onRetry: retryReporter(onProgress) });
     
-    await transaction.wait();
+    if (isCancelled(result)) {
+        return { success: false, cancelled: true, error: _("Update cancelled"), packageIds };
+    }
     
-    await new Promise<void>((resolve, reject) => {
-        pkProxy.subscribe(
-            { path: transactionPath[0], interface: "org.freedesktop.PackageKit.Transaction", member: "Finished" },
-            () => resolve()
-        );
+    if (simulate) {
+        return { success: true, rebootRequired, packageIds, changes };
+    }
+    
+    return { success: true, rebootRequired, packageIds };
+}
+
+/**
+ * Refresh package cache on a host; aborting `signal` cancels the refresh
+ */
+export async function refreshPackageCache(host: string, signal?: AbortSignal): Promise<void> {
+    const backend = await getBackend(host);
+    await backend.refreshCache(host, signal);
+}
+
+/**
+ * Backends the dashboard can manage updates through
+ */
+export type BackendId = "packagekit" | NativeManager;
+
+/**
+ * Operations every update backend implements
+ *
+ * Package IDs use the PackageKit "name;version;arch;data" format for every
+ * backend, so the rest of the dashboard does not need to know which one a
+ * host uses.
+ */
+export interface UpdateBackend {
+    id: BackendId;
+    /** List the pending updates; `retry` applies to transient PackageKit errors */
+    listUpdates(host: string, retry?: Partial<RetryOptions>): Promise<PackageUpdate[]>;
+    refreshCache(host: string, signal?: AbortSignal): Promise<void>;
+    installPackages(
+        host: string,
+        packageIds: string[],
+        onProgress?: (percent: number, status: string) => void,
+        signal?: AbortSignal,
+        simulate?: boolean
+    ): Promise<InstallResult>;
+    /** Bytes to download to install `packageIds` */
+    getDownloadSize(host: string, packageIds: string[]): Promise<number>;
+}
+
+const packageKitBackend: UpdateBackend = {
+    id: "packagekit",
+    
+    listUpdates: (host, retry) => withRetry(async () => {
+        // GetUpdates (0 = no filter) reports each pending update as a Package signal
+        const packages: PackageUpdate[] = [];
+        const result = await runTransaction(host, "GetUpdates", [0], {
+            signals: {
+                Package: args => packages.push(parsePackageId(args[1] as string, args[0] as number, args[2] as string)),
+            },
+            signal: retry?.signal,
+        });
+        // A cancelled listing is incomplete
+        if (isCancelled(result)) {
+            throw new Error(_("Update check cancelled"));
+        }
+        return packages;
+    }, retry),
+    
+    // force=true to refresh even if cache is valid
+    refreshCache: async (host, signal) => {
+        await withRetry(() => runTransaction(host, "RefreshCache", [true], { signal }), { signal });
+    },
+    
+    installPackages: runUpdatePackages,
+    
+    // Details reports the download size since PackageKit 1.2.4, older versions only the installed size
+    getDownloadSize: (host, packageIds) => withRetry(async () => {
+        let total = 0;
+        await runTransaction(host, "GetDetails", [packageIds], {
+            signals: {
+                Details: args => {
+                    const details = args[0] as Record<string, { v: number } | undefined>;
+                    total += Number((details["download-size"] ?? details.size)?.v ?? 0);
+                },
+            },
+        });
+        return total;
+    }),
+};
+
+/**
+ * PackageKit info type matching the advisory type reported by a package manager
+ */
+const NATIVE_INFO: Record<NativeUpdate["kind"], number> = {
+    security: PkInfo.SECURITY,
+    bugfix: PkInfo.BUGFIX,
+    enhancement: PkInfo.ENHANCEMENT,
+    normal: PkInfo.NORMAL,
+};
+
+/**
+ * Create the backend driving a package manager directly
+ */
+function nativeBackend(manager: NativeManager): UpdateBackend {
+    return {
+        id: manager,
+        
+        listUpdates: async (host, retry) => {
+            const updates = await listNativeUpdates(host, manager, retry?.signal);
+            return updates.map(update => parsePackageId(
+                [update.name, update.version, update.arch, update.repo].join(";"), NATIVE_INFO[update.kind]
+            ));
+        },
         
-        pkProxy.subscribe(
-            { path: transactionPath[0], interface: "org.freedesktop.PackageKit.Transaction", member: "ErrorCode" },
-            (_path: string, _iface: string, _signal: string, args: unknown[]) => {
-                reject(new Error(args[1] as string));
+        refreshCache: (host, signal) => refreshNativeCache(host, manager, signal),
+        
+        installPackages: async (host, packageIds, onProgress, signal, simulate = false) => {
+            if (signal?.aborted) {
+                return { success: false, cancelled: true, error: _("Update cancelled"), packageIds };
             }
-        );
+            
+            const packages = packageIds.map(id => parsePackageId(id));
+            
+            if (simulate) {
+                const changes = emptyChangeSet();
+                for (const change of await simulateNativeInstall(host, manager, packages)) {
+                    changes[change.kind].push(parsePackageId(
+                        [change.name, change.version, change.arch, change.repo].join(";")
+                    ));
+                }
+                return { success: true, rebootRequired: false, packageIds, changes };
+            }
+            
+            if (!await runNativeInstall(host, manager, packages, onProgress, signal)) {
+                return { success: false, cancelled: true, error: _("Update cancelled"), packageIds };
+            }
+            
+            // Package managers don't report restarts, the host itself knows
+            const rebootStatus = await getRebootStatus(host);
+            return { success: true, rebootRequired: rebootStatus?.needed ?? false, packageIds };
+        },
         
-        // force=true to refresh even if cache is valid
-        (transaction as unknown as { RefreshCache: (force: boolean) => Promise<void> })
-            .RefreshCache(true).catch(reject);
+        getDownloadSize: (host, packageIds) =>
+            getNativeDownloadSize(host, manager, packageIds.map(id => parsePackageId(id))),
+    };
+}
+
+// Backend of each host, detected on first use
+const backends = new Map<string, Promise<UpdateBackend>>();
+
+/**
+ * Get the backend of a host: PackageKit when it runs, otherwise its package manager
+ */
+export function getBackend(host: string): Promise<UpdateBackend> {
+    let backend = backends.get(host);
+    if (!backend) {
+        backend = detectBackend(host);
+        // Detection failing, e.g. on an unreachable host, is retried on next use
+        backend.catch(() => backends.delete(host));
+        backends.set(host, backend);
+    }
+    return backend;
+}
+
+async function detectBackend(host: string): Promise<UpdateBackend> {
+    if (await isPackageKitAvailable(host)) {
+        return packageKitBackend;
+    }
+    
+    const manager = await detectNativeManager(host);
+    if (!manager) {
+        throw new Error(_("Neither PackageKit nor a supported package manager (apt, dnf) is available"));
+    }
+    return nativeBackend(manager);
+}
+
+/**
+ * Forget the detected backend of a host, or of every host
+ */
+export function resetBackends(host?: string): void {
+    if (host === undefined) {
+        backends.clear();
+    } else {
+        backends.delete(host);
+    }
+}
+
+/**
+ * Get a human readable name for a backend
+ */
+export function getBackendDescription(backend: BackendId): string {
+    switch (backend) {
+    case "packagekit":
+        return _("PackageKit");
+    case "apt":
+        return _("APT");
+    default:
+        return _("DNF");
+    }
+}
+
+/**
+ * Advisory metadata of a pending update, from PackageKit GetUpdateDetail
+ */
+export interface UpdateDetail {
+    packageId: string;
+    advisories: string[];
+    cves: string[];
+    vendorUrls: string[];
+    bugUrls: string[];
+    cveUrls: string[];
+    text: string;
+    issued: string;
+}
+
+const ADVISORY_PATTERN = /(RH[SBE]A-\d{4}:\d+|[ARE]LSA-\d{4}[:-]\d+|FEDORA-(?:EPEL-)?\d{4}-[0-9a-f]+|USN-\d+-\d+|D[SL]A-\d+-\d+|(?:open)?SUSE-[A-Z]{2}-[\w:-]+)/i;
+const CVE_PATTERN = /CVE-\d{4}-\d+/gi;
+
+/**
+ * Derive an advisory ID from a vendor URL, e.g. ".../errata/RHSA-2024:1234"
+ */
+function advisoryFromUrl(url: string): string | null {
+    const match = url.match(ADVISORY_PATTERN);
+    if (match) {
+        return match[1].toUpperCase();
+    }
+    const segment = url.split(/[/?=#]/).filter(Boolean).pop();
+    return segment && segment !== url ? segment : null;
+}
+
+/**
+ * Get advisory details (advisory IDs, CVEs, bug links) for pending updates on a host
+ */
+export async function getUpdateDetails(host: string, packageIds: string[]): Promise<UpdateDetail[]> {
+    // Advisory details are only available through PackageKit
+    if (packageIds.length === 0 || (await getBackend(host)).id !== "packagekit") {
+        return [];
+    }
+    
+    const details: UpdateDetail[] = [];
+    
+    await runTransaction(host, "GetUpdateDetail", [packageIds], {
+        signals: {
+            UpdateDetail: args => {
+                // (package_id, updates, obsoletes, vendor_urls, bugzilla_urls, cve_urls,
+                //  restart, update_text, changelog, state, issued, updated)
+                const vendorUrls = (args[3] as string[]) || [];
+                const cveUrls = (args[5] as string[]) || [];
+                const text = (args[7] as string) || "";
+                
+                const advisories = vendorUrls.map(advisoryFromUrl).filter((id): id is string => !!id);
+                const cves = [...cveUrls, text].flatMap(value => value.match(CVE_PATTERN) || [])
+                    .map(cve => cve.toUpperCase());
+                
+                details.push({
+                    packageId: args[0] as string,
+                    advisories: [...new Set(advisories)],
+                    cves: [...new Set(cves)],
+                    vendorUrls,
+                    bugUrls: (args[4] as string[]) || [],
+                    cveUrls,
+                    text,
+                    issued: (args[10] as string) || "",
+                });
+            },
+        },
+    });
+    
+    return details;
+}
+
+/**
+ * A package repository configured on a host
+ */
+export interface Repository {
+    id: string;
+    description: string;
+    enabled: boolean;
+}
+
+/**
+ * Get the repositories configured on a host, from PackageKit GetRepoList
+ */
+export async function getRepositories(host: string): Promise<Repository[]> {
+    if ((await getBackend(host)).id !== "packagekit") {
+        throw new Error(_("Repositories can only be managed on machines running PackageKit"));
+    }
+    
+    const repositories: Repository[] = [];
+    
+    // GetRepoList (0 = no filter) reports each repository as a RepoDetail signal
+    await runTransaction(host, "GetRepoList", [0], {
+        signals: {
+            RepoDetail: args => repositories.push({
+                id: args[0] as string,
+                description: (args[1] as string) || (args[0] as string),
+                enabled: args[2] as boolean,
+            }),
+        },
     });
+    
+    return repositories.sort((a, b) => a.id.localeCompare(b.id));
+}
+
+/**
+ * Enable or disable a repository on a host
+ */
+export async function setRepositoryEnabled(host: string, repoId: string, enabled: boolean): Promise<void> {
+    await withRetry(() => runTransaction(host, "RepoEnable", [repoId, enabled]));
+}
+
+/**
+ * PackageKit role enum values of transactions that change installed packages
+ */
+export const PkRole = {
+    INSTALL_FILES: 10,
+    INSTALL_PACKAGES: 11,
+    REMOVE_PACKAGES: 14,
+    UPDATE_PACKAGES: 22,
+    UPGRADE_SYSTEM: 29,
+    REPAIR_SYSTEM: 30,
+} as const;
+
+const MODIFYING_ROLES: number[] = Object.values(PkRole);
+
+/**
+ * Whether a PackageKit transaction changing packages is queued or running on a host
+ */
+export async function hasRunningTransaction(host: string): Promise<boolean> {
+    const roles = await getTransactionRoles(host);
+    return roles.some(role => MODIFYING_ROLES.includes(role));
+}
+
+/**
+ * A package touched by a past transaction
+ */
+export interface HistoryPackage {
+    action: string;
+    name: string;
+    version: string;
+    arch: string;
+}
+
+/**
+ * A past PackageKit transaction, from GetOldTransactions
+ */
+export interface HistoryEntry {
+    id: string;
+    date: Date;
+    role: number;
+    succeeded: boolean;
+    duration: number;
+    uid: number;
+    user: string | null;
+    cmdline: string;
+    packages: HistoryPackage[];
+}
+
+/**
+ * Get a human readable label for a PackageKit transaction role
+ */
+export function getRoleDescription(role: number): string {
+    switch (role) {
+    case PkRole.INSTALL_FILES:
+        return _("Install files");
+    case PkRole.INSTALL_PACKAGES:
+        return _("Install");
+    case PkRole.REMOVE_PACKAGES:
+        return _("Remove");
+    case PkRole.UPDATE_PACKAGES:
+        return _("Update");
+    case PkRole.UPGRADE_SYSTEM:
+        return _("System upgrade");
+    case PkRole.REPAIR_SYSTEM:
+        return _("Repair");
+    default:
+        return _("Other");
+    }
+}
+
+/**
+ * Resolve user IDs to user names on a host
+ */
+async function resolveUsers(host: string, uids: number[]): Promise<Map<number, string>> {
+    const users = new Map<number, string>();
+    if (uids.length === 0) {
+        return users;
+    }
+    
+    try {
+        const options = host === "localhost" ? {} : { host };
+        const output = await cockpit.spawn(["getent", "passwd", ...uids.map(String)], options);
+        for (const line of output.split("\n")) {
+            const [name, , uid] = line.split(":");
+            if (name && uid) {
+                users.set(Number(uid), name);
+            }
+        }
+    } catch {
+        // getent exits non-zero if any uid is unknown; keep what we have
+    }
+    return users;
+}
+
+/**
+ * Get the package-changing transactions from the PackageKit transaction log of a host, newest first
+ */
+export async function getUpdateHistory(host: string, count = 50): Promise<HistoryEntry[]> {
+    if ((await getBackend(host)).id !== "packagekit") {
+        throw new Error(_("The update history is only available on machines running PackageKit"));
+    }
+    
+    const entries: HistoryEntry[] = [];
+    
+    await runTransaction(host, "GetOldTransactions", [count], {
+        signals: {
+            Transaction: args => {
+                // (object_path, timespec, succeeded, role, duration, data, uid, cmdline)
+                const role = args[3] as number;
+                if (!MODIFYING_ROLES.includes(role)) {
+                    return;
+                }
+                
+                // data holds one "action\tpackage_id" line per package
+                const packages = ((args[5] as string) || "").split("\n")
+                    .map(line => line.split("\t"))
+                    .filter(parts => parts.length === 2)
+                    .map(([action, packageId]) => {
+                        const { name, version, arch } = parsePackageId(packageId);
+                        return { action, name, version, arch };
+                    });
+                
+                entries.push({
+                    id: args[0] as string,
+                    date: new Date(args[1] as string),
+                    role,
+                    succeeded: args[2] as boolean,
+                    duration: args[4] as number,
+                    uid: args[6] as number,
+                    user: null,
+                    cmdline: (args[7] as string) || "",
+                    packages,
+                });
+            },
+        },
+    });
+    
+    const users = await resolveUsers(host, [...new Set(entries.map(entry => entry.uid))]);
+    for (const entry of entries) {
+        entry.user = users.get(entry.uid) ?? null;
+    }
+    
+    return entries.sort((a, b) => b.date.getTime() - a.date.getTime());
+}
+
+/**
+ * Get the date of the last successful update or upgrade transaction on a host
+ */
+export async function getLastUpdated(host: string): Promise<Date | null> {
+    try {
+        const history = await getUpdateHistory(host, 20);
+        const last = history.find(entry =>
+            entry.succeeded && (entry.role === PkRole.UPDATE_PACKAGES || entry.role === PkRole.UPGRADE_SYSTEM)
+        );
+        return last?.date ?? null;
+    } catch (error) {
+        console.warn(`Failed to read update history of ${host}:`, error);
+        return null;
+    }
 }
 
 /**
@@ -490,11 +1478,29 @@ export async function getHostname(host: string): Promise<string | null> {
     }
 }
 
+/**
+ * Reject with a timeout error when `promise` does not settle within `ms`
+ * `controller` is aborted on timeout, to stop the work behind `promise`.
+ */
+export function withTimeout<T>(promise: Promise<T>, ms: number, message: string, controller?: AbortController): Promise<T> {
+    let timer: number | undefined;
+    const timeout = new Promise<never>((_resolve, reject) => {
+        timer = window.setTimeout(() => {
+            controller?.abort();
+            reject(new Error(message));
+        }, ms);
+    });
+    return Promise.race([promise, timeout]).finally(() => window.clearTimeout(timer));
+}
+
 /**
  * Check if a remote machine is reachable and get its hostname
- * Returns the connection state and hostname
+ * Returns the connection state and hostname, and the reason when it failed
  */
-export async function checkMachineConnection(host: string): Promise<{ state: "connected" | "failed"; hostname: string | null }> {
+export async function checkMachineConnection(
+    host: string,
+    timeout = 10000
+): Promise<{ state: "connected" | "failed"; hostname: string | null; error?: string }> {
     if (host === "localhost") {
         return { state: "connected", hostname: window.location.hostname };
     }
@@ -502,16 +1508,126 @@ export async function checkMachineConnection(host: string): Promise<{ state: "co
     try {
         // Try to get hostname - this also verifies connectivity
         const options = { host };
-        const result = await Promise.race([
-            cockpit.spawn(["hostname"], options),
-            new Promise<never>((_, reject) => 
-                setTimeout(() => reject(new Error("timeout")), 10000)
-            )
-        ]);
+        const result = await withTimeout(
+            cockpit.spawn(["hostname"], options) as Promise<string>,
+            timeout,
+            cockpit.format(_("Connection timed out after $0 seconds"), Math.round(timeout / 1000))
+        );
         
-        const hostname = (result as string).trim() || null;
+        const hostname = result.trim() || null;
         return { state: "connected", hostname };
+    } catch (error) {
+        return { state: "failed", hostname: null, error: (error as Error).message };
+    }
+}
+
+/**
+ * Read the boot ID of a host, which changes on every boot
+ * Returns null when the host can't be reached
+ */
+async function readBootId(host: string, timeout = 10000): Promise<string | null> {
+    try {
+        const options = host === "localhost" ? {} : { host };
+        const bootId = await withTimeout(
+            cockpit.spawn(["cat", "/proc/sys/kernel/random/boot_id"], options) as Promise<string>,
+            timeout,
+            cockpit.format(_("Connection timed out after $0 seconds"), Math.round(timeout / 1000))
+        );
+        return bootId.trim() || null;
     } catch {
-        return { state: "failed", hostname: null };
+        return null;
+    }
+}
+
+/**
+ * A reboot handed to a host
+ */
+export interface ScheduledReboot {
+    /** When the host goes down, `shutdown` only takes whole minutes */
+    at: Date;
+    /** Boot ID before the reboot, null when it could not be read */
+    bootId: string | null;
+}
+
+/**
+ * Reboot a host, either right away or at a scheduled time
+ */
+export async function rebootHost(host: string, when?: Date | null): Promise<ScheduledReboot> {
+    const bootId = await readBootId(host);
+    
+    // The delay is rounded up to whole minutes, the reboot is due at the end of the last one
+    const now = Date.now();
+    const minutes = when ? Math.max(0, Math.ceil((when.getTime() - now) / 60000)) : 0;
+    const schedule = minutes > 0 ? `+${minutes}` : "now";
+    
+    const options = host === "localhost" ? { superuser: "require" } : { host, superuser: "require" };
+    await cockpit.spawn(["shutdown", "--reboot", schedule], { ...options, err: "message" });
+    return { at: new Date(now + minutes * 60000), bootId };
+}
+
+/**
+ * Cancel a scheduled reboot on a host
+ */
+export async function cancelReboot(host: string): Promise<void> {
+    const options = host === "localhost" ? { superuser: "require" } : { host, superuser: "require" };
+    await cockpit.spawn(["shutdown", "-c"], { ...options, err: "message" });
+}
+
+/**
+ * Wait for a host to come back after a reboot
+ *
+ * Polls checkMachineConnection after an initial delay. The host only counts
+ * as back once it was seen going down, or once it reports a boot ID other
+ * than `bootId`, so a host still up before its reboot is not mistaken for
+ * one that already rebooted.
+ */
+export async function waitForHost(
+    host: string,
+    {
+        initialDelay = 30000,
+        interval = 10000,
+        timeout = 15 * 60000,
+        bootId = null,
+        signal,
+    }: {
+        initialDelay?: number;
+        interval?: number;
+        timeout?: number;
+        bootId?: string | null;
+        signal?: AbortSignal;
+    } = {}
+): Promise<boolean> {
+    const sleep = (ms: number) => new Promise<void>(resolve => {
+        const onAbort = () => {
+            clearTimeout(timer);
+            resolve();
+        };
+        const timer = setTimeout(() => {
+            signal?.removeEventListener("abort", onAbort);
+            resolve();
+        }, ms);
+        signal?.addEventListener("abort", onAbort, { once: true });
+    });
+    
+    const deadline = Date.now() + initialDelay + timeout;
+    await sleep(initialDelay);
+    
+    let wentDown = false;
+    while (!signal?.aborted && Date.now() < deadline) {
+        const { state } = await checkMachineConnection(host);
+        if (state !== "connected") {
+            wentDown = true;
+        } else if (wentDown) {
+            return true;
+        } else if (bootId) {
+            // A quick reboot may happen between two polls
+            const current = await readBootId(host);
+            if (current && current !== bootId) {
+                return true;
+            }
+        }
+        await sleep(interval);
     }
+    
+    return false;
 }
@@ -0,0 +1,383 @@
+/*
+ * This file is part of Cockpit Machines Dashboard.
+ *
+ * Copyright (C) 2026
+ *
+ * Cockpit is free software; you can redistribute it and/or modify it
+ * under the terms of the GNU Lesser General Public License as published by
+ * the Free Software Foundation; either version 2.1 of the License, or
+ * (at your option) any later version.
+ */
+
+import cockpit from "cockpit";
+
+import { type ChangeKind } from "./machines-api";
+
+const _ = cockpit.gettext;
+
+/**
+ * Package managers driven directly when a host does not run PackageKit
+ */
+export const NATIVE_MANAGERS = ["apt", "dnf"] as const;
+
+export type NativeManager = typeof NATIVE_MANAGERS[number];
+
+/**
+ * A pending update as reported by the package manager
+ */
+export interface NativeUpdate {
+    name: string;
+    version: string;
+    arch: string;
+    repo: string;
+    kind: "security" | "bugfix" | "enhancement" | "normal";
+}
+
+/**
+ * A package change the package manager would make
+ */
+export interface NativeChange {
+    kind: ChangeKind;
+    name: string;
+    version: string;
+    arch: string;
+    repo: string;
+}
+
+/**
+ * Package to install, as name and architecture
+ */
+export interface NativePackage {
+    name: string;
+    arch: string;
+}
+
+// Parsed output must not depend on the user's locale
+const ENVIRON = ["LC_ALL=C", "DEBIAN_FRONTEND=noninteractive"];
+
+function spawnOptions(host: string, superuser: string) {
+    return host === "localhost"
+        ? { superuser, err: "message", environ: ENVIRON }
+        : { host, superuser, err: "message", environ: ENVIRON };
+}
+
+/**
+ * Run a command and resolve with its output; aborting `signal` closes it
+ */
+async function spawnCancellable(command: string[], options: object, signal?: AbortSignal): Promise<string> {
+    const proc = cockpit.spawn(command, options);
+    const cancel = () => proc.close("cancelled");
+    if (signal?.aborted) {
+        cancel();
+    }
+    signal?.addEventListener("abort", cancel, { once: true });
+    try {
+        return await proc;
+    } finally {
+        signal?.removeEventListener("abort", cancel);
+    }
+}
+
+/**
+ * Find the package manager of a host, null when it has none we support
+ */
+export async function detectNativeManager(host: string): Promise<NativeManager | null> {
+    const script = "if command -v dnf >/dev/null; then echo dnf; elif command -v apt-get >/dev/null; then echo apt; fi";
+    const output = await cockpit.spawn(["/bin/sh", "-c", script], spawnOptions(host, "try"));
+    const manager = output.trim();
+    return (NATIVE_MANAGERS as readonly string[]).includes(manager) ? manager as NativeManager : null;
+}
+
+/**
+ * List the pending updates of a host; aborting `signal` stops the package manager
+ */
+export async function listNativeUpdates(host: string, manager: NativeManager, signal?: AbortSignal): Promise<NativeUpdate[]> {
+    return manager === "apt" ? listAptUpdates(host, signal) : listDnfUpdates(host, signal);
+}
+
+/**
+ * `apt list --upgradable` prints "name/suite,suite version arch [upgradable from: old]";
+ * updates from a "-security" suite are security updates
+ */
+async function listAptUpdates(host: string, signal?: AbortSignal): Promise<NativeUpdate[]> {
+    const output = await spawnCancellable(["apt", "list", "--upgradable"], spawnOptions(host, "try"), signal);
+    const updates: NativeUpdate[] = [];
+
+    for (const line of output.split("\n")) {
+        const match = line.match(/^([^/\s]+)\/(\S+)\s+(\S+)\s+(\S+)/);
+        if (match) {
+            const [, name, suites, version, arch] = match;
+            updates.push({ name, version, arch, repo: suites, kind: /security/.test(suites) ? "security" : "normal" });
+        }
+    }
+
+    return updates;
+}
+
+/**
+ * `dnf check-update` prints "name.arch version repo" triples, wrapping long names,
+ * and exits with 100 when updates are available; advisory types come from
+ * `dnf updateinfo`
+ */
+async function listDnfUpdates(host: string, signal?: AbortSignal): Promise<NativeUpdate[]> {
+    const script = "dnf -q check-update; rc=$?; [ $rc -eq 100 ] && exit 0; exit $rc";
+    const output = await spawnCancellable(["/bin/sh", "-c", script], spawnOptions(host, "try"), signal);
+    const kinds = await getDnfAdvisoryKinds(host, signal);
+
+    // Obsoleted packages are listed after the updates and are updated along with them
+    const tokens = output.split(/^Obsoleting packages/im)[0].split(/\s+/).filter(Boolean);
+    const updates: NativeUpdate[] = [];
+
+    for (let i = 0; i + 2 < tokens.length; i += 3) {
+        const [nameArch, version, repo] = tokens.slice(i, i + 3);
+        const index = nameArch.lastIndexOf(".");
+        if (index > 0) {
+            updates.push({
+                name: nameArch.slice(0, index),
+                version,
+                arch: nameArch.slice(index + 1),
+                repo,
+                kind: kinds.get(nameArch) ?? "normal",
+            });
+        }
+    }
+
+    return updates;
+}
+
+/**
+ * Map "name.arch" to the most severe advisory type of its pending update
+ * Hosts without advisory metadata simply report nothing
+ */
+async function getDnfAdvisoryKinds(host: string, signal?: AbortSignal): Promise<Map<string, NativeUpdate["kind"]>> {
+    const kinds = new Map<string, NativeUpdate["kind"]>();
+    const rank = ["normal", "enhancement", "bugfix", "security"];
+
+    try {
+        const output = await spawnCancellable(["dnf", "-q", "updateinfo", "list", "--updates"], spawnOptions(host, "try"),
+                                              signal);
+        for (const line of output.split("\n")) {
+            const tokens = line.trim().split(/\s+/);
+            // (advisory, type[, severity], name-version-release.arch[, issued])
+            const nevra = tokens.slice(1).map((token: string) => token.match(/^(.+)-[^-]+-[^-]+\.([^.]+)$/)).find(Boolean);
+            if (!nevra) continue;
+
+            const kind = tokens.some((token: string) => token === "security" || token.endsWith("/Sec."))
+                ? "security"
+                : tokens.includes("bugfix") ? "bugfix" : tokens.includes("enhancement") ? "enhancement" : "normal";
+            const key = `${nevra[1]}.${nevra[2]}`;
+            if (rank.indexOf(kind) > rank.indexOf(kinds.get(key) ?? "normal")) {
+                kinds.set(key, kind);
+            }
+        }
+    } catch (error) {
+        console.warn(`Failed to read advisories of ${host}:`, error);
+    }
+
+    return kinds;
+}
+
+/**
+ * Refresh the package metadata of a host; aborting `signal` stops the package manager
+ */
+export async function refreshNativeCache(host: string, manager: NativeManager, signal?: AbortSignal): Promise<void> {
+    const command = manager === "apt" ? ["apt-get", "-q", "update"] : ["dnf", "-q", "makecache"];
+    await spawnCancellable(command, spawnOptions(host, "try"), signal);
+}
+
+/**
+ * Package arguments as the package manager expects them
+ */
+function packageArgs(manager: NativeManager, packages: NativePackage[]): string[] {
+    return packages.map(({ name, arch }) => {
+        if (manager === "dnf") return `${name}.${arch}`;
+        return arch && arch !== "all" ? `${name}:${arch}` : name;
+    });
+}
+
+// Section headers of the dnf transaction table, by prefix
+const DNF_SECTIONS: [string, ChangeKind][] = [
+    ["Install", "install"],
+    ["Upgrad", "update"],
+    ["Remov", "remove"],
+    ["Downgrad", "downgrade"],
+    ["Reinstall", "reinstall"],
+    ["Obsolet", "obsolete"],
+];
+
+/**
+ * Resolve the changes installing `packages` would make, without installing anything
+ */
+export async function simulateNativeInstall(host: string, manager: NativeManager, packages: NativePackage[]): Promise<NativeChange[]> {
+    const changes: NativeChange[] = [];
+
+    if (manager === "apt") {
+        const output = await cockpit.spawn(["apt-get", "-s", "-q", "install", "--only-upgrade", ...packageArgs(manager, packages)],
+                                           spawnOptions(host, "try"));
+        for (const line of output.split("\n")) {
+            // Inst name [old] (new repo [arch]) / Remv name [old]
+            const install = line.match(/^Inst (\S+) (\[\S+\] )?\((\S+) (.*?)(?: \[(\S+)\])?\)/);
+            const remove = line.match(/^Remv (\S+)(?: \[(\S+)\])?/);
+            if (install) {
+                const [, name, old, version, repo, arch = ""] = install;
+                changes.push({ kind: old ? "update" : "install", name, version, arch, repo });
+            } else if (remove) {
+                changes.push({ kind: "remove", name: remove[1], version: remove[2] || "", arch: "", repo: "" });
+            }
+        }
+        return changes;
+    }
+
+    // --assumeno prints the transaction table and then refuses it
+    const script = "dnf upgrade --assumeno \"$@\" 2>&1; exit 0";
+    const output = await cockpit.spawn(["/bin/sh", "-c", script, "--", ...packageArgs(manager, packages)],
+                                       spawnOptions(host, "try"));
+    const error = output.match(/^Error: (.*)$/m);
+    if (error) {
+        throw new Error(error[1]);
+    }
+
+    let kind: ChangeKind | null = null;
+    let pending = "";
+    for (const line of output.split("\n")) {
+        if (/^\S.*:$/.test(line)) {
+            kind = DNF_SECTIONS.find(([prefix]) => line.startsWith(prefix))?.[1] ?? null;
+            pending = "";
+            continue;
+        }
+        if (!kind || !line.startsWith(" ") || /^\s+replacing\s/.test(line)) continue;
+
+        // Long package names are wrapped onto a line of their own
+        const tokens = (pending + " " + line).trim().split(/\s+/);
+        if (tokens.length < 4) {
+            pending = tokens.join(" ");
+            continue;
+        }
+        pending = "";
+        const [name, arch, version, repo] = tokens;
+        changes.push({ kind, name, version, arch, repo });
+    }
+
+    return changes;
+}
+
+// Multipliers of the size units printed by dnf (k, M, G) and dnf5 (KiB, MiB, GiB)
+const SIZE_UNITS: Record<string, number> = {
+    "": 1,
+    B: 1,
+    k: 1024,
+    KiB: 1024,
+    M: 1024 ** 2,
+    MiB: 1024 ** 2,
+    G: 1024 ** 3,
+    GiB: 1024 ** 3,
+};
+
+/**
+ * Number of bytes the package manager would download to install `packages`
+ * Packages already in the local cache don't count
+ */
+export async function getNativeDownloadSize(host: string, manager: NativeManager, packages: NativePackage[]): Promise<number> {
+    if (manager === "apt") {
+        // 'uri' file size hash, one line per package to fetch
+        const output = await cockpit.spawn(["apt-get", "--print-uris", "-qq", "install", "--only-upgrade",
+            ...packageArgs(manager, packages)], spawnOptions(host, "try"));
+        return output.split("\n").reduce((total: number, line: string) => {
+            const match = line.match(/^'\S+' \S+ (\d+)/);
+            return match ? total + Number(match[1]) : total;
+        }, 0);
+    }
+
+    const script = "dnf upgrade --assumeno \"$@\" 2>&1; exit 0";
+    const output = await cockpit.spawn(["/bin/sh", "-c", script, "--", ...packageArgs(manager, packages)],
+                                       spawnOptions(host, "try"));
+    const error = output.match(/^Error: (.*)$/m);
+    if (error) {
+        throw new Error(error[1]);
+    }
+
+    // dnf: "Total download size: 45 M", dnf5: "... Need to download 45 MiB."
+    const size = output.match(/(?:Total download size:|Need to download)\s*([\d.]+)\s*([A-Za-z]*)/);
+    return size ? Math.round(Number(size[1]) * (SIZE_UNITS[size[2]] ?? 1)) : 0;
+}
+
+/**
+ * Install `packages` and report progress; resolves false when cancelled
+ *
+ * Aborting `signal` stops the package manager while it is still downloading.
+ * Once it started changing packages it is left to finish, as interrupting it
+ * would leave the package database inconsistent.
+ */
+export async function runNativeInstall(
+    host: string,
+    manager: NativeManager,
+    packages: NativePackage[],
+    onProgress?: (percent: number, status: string) => void,
+    signal?: AbortSignal
+): Promise<boolean> {
+    // A signal aborted before this point never fires its abort event
+    if (signal?.aborted) {
+        return false;
+    }
+
+    const command = manager === "apt"
+        ? ["apt-get", "install", "--only-upgrade", "-y", "-q", "-o", "APT::Status-Fd=1",
+            "-o", "Dpkg::Options::=--force-confdef", "-o", "Dpkg::Options::=--force-confold"]
+        : ["dnf", "-y", "upgrade"];
+
+    const proc = cockpit.spawn([...command, ...packageArgs(manager, packages)], spawnOptions(host, "require"));
+    let installing = false;
+    let percent = 0;
+    let buffer = "";
+
+    const onLine = (line: string) => {
+        // apt: "pmstatus:package:percent:description" while installing, "dlstatus:..." while downloading
+        const apt = line.match(/^(pmstatus|dlstatus):(.+?):(\d+(?:\.\d+)?):(.*)$/);
+        // dnf: "  Upgrading : name-version.arch  3/10", dnf5: "[3/10] Upgrading name-version.arch"
+        const dnf = line.match(/^\s+(\S.*?)\s*:\s*(\S+)\s+(\d+)\/(\d+)\s*$/);
+        const dnf5 = line.match(/^\[\s*(\d+)\/(\d+)\]\s+(.*?)\s*$/);
+
+        if (apt) {
+            installing = installing || apt[1] === "pmstatus";
+            percent = Math.round(Number(apt[3]));
+            onProgress?.(percent, apt[4]);
+        } else if (dnf) {
+            installing = true;
+            percent = Math.round(Number(dnf[3]) * 100 / Number(dnf[4]));
+            onProgress?.(percent, `${dnf[1]} ${dnf[2]}`);
+        } else if (dnf5) {
+            // Download lines carry a percentage, transaction steps don't
+            installing = installing || !dnf5[3].includes("%");
+            percent = Math.round(Number(dnf5[1]) * 100 / Number(dnf5[2]));
+            onProgress?.(percent, dnf5[3]);
+        }
+    };
+
+    proc.stream((data: string) => {
+        buffer += data;
+        const lines = buffer.split("\n");
+        buffer = lines.pop() ?? "";
+        lines.forEach(onLine);
+    });
+
+    const cancel = () => {
+        if (installing) {
+            onProgress?.(percent, _("Installing packages, the update can no longer be cancelled"));
+        } else {
+            proc.close("cancelled");
+        }
+    };
+
+    signal?.addEventListener("abort", cancel, { once: true });
+    try {
+        await proc;
+        return true;
+    } catch (error) {
+        if (signal?.aborted && !installing) {
+            return false;
+        }
+        throw error;
+    } finally {
+        signal?.removeEventListener("abort", cancel);
+    }
+}
@@ -0,0 +1,454 @@
+/*
+ * This file is part of Cockpit Machines Dashboard.
+ *
+ * Copyright (C) 2026
+ *
+ * Cockpit is free software; you can redistribute it and/or modify it
+ * under the terms of the GNU Lesser General Public License as published by
+ * the Free Software Foundation; either version 2.1 of the License, or
+ * (at your option) any later version.
+ */
+
+import cockpit from "cockpit";
+
+const _ = cockpit.gettext;
+
+const PK_SERVICE = "org.freedesktop.PackageKit";
+const PK_PATH = "/org/freedesktop/PackageKit";
+const PK_TRANSACTION_IFACE = "org.freedesktop.PackageKit.Transaction";
+
+/**
+ * PackageKit exit enum values reported by the Finished signal
+ */
+export const PkExit = {
+    SUCCESS: 1,
+    FAILED: 2,
+    CANCELLED: 3,
+    CANCELLED_PRIORITY: 9,
+} as const;
+
+/**
+ * PackageKit error enum values (PK_ERROR_ENUM_*) the dashboard knows how to explain
+ */
+export const PkError = {
+    NO_NETWORK: 2,
+    GPG_FAILURE: 5,
+    PACKAGE_ID_INVALID: 6,
+    PACKAGE_NOT_FOUND: 8,
+    PACKAGE_DOWNLOAD_FAILED: 10,
+    DEP_RESOLUTION_FAILED: 13,
+    NO_CACHE: 18,
+    REPO_NOT_FOUND: 19,
+    FAILED_CONFIG_PARSING: 24,
+    CANNOT_GET_LOCK: 26,
+    BAD_GPG_SIGNATURE: 30,
+    MISSING_GPG_SIGNATURE: 31,
+    REPO_CONFIGURATION_ERROR: 33,
+    FILE_CONFLICTS: 35,
+    PACKAGE_CONFLICTS: 36,
+    REPO_NOT_AVAILABLE: 37,
+    NO_MORE_MIRRORS_TO_TRY: 43,
+    NO_SPACE_ON_DEVICE: 46,
+    NOT_AUTHORIZED: 48,
+    UPDATE_NOT_FOUND: 49,
+    CANNOT_INSTALL_REPO_UNSIGNED: 50,
+    CANNOT_UPDATE_REPO_UNSIGNED: 51,
+    UPDATE_FAILED_DUE_TO_RUNNING_PROCESS: 60,
+    PACKAGE_DATABASE_CHANGED: 61,
+    CANNOT_FETCH_SOURCES: 64,
+    UNFINISHED_TRANSACTION: 66,
+    LOCK_REQUIRED: 67,
+    /** Not a PackageKit value: the connection to the host closed during the transaction */
+    DISCONNECTED: -1,
+} as const;
+
+/**
+ * Broad classes of PackageKit errors
+ */
+export type PackageKitErrorKind =
+    | "lock"
+    | "network"
+    | "cache"
+    | "gpg"
+    | "dependencies"
+    | "repository"
+    | "disk"
+    | "authorization"
+    | "stale"
+    | "other";
+
+/**
+ * Error reported by a PackageKit transaction through its ErrorCode signal
+ */
+export class PackageKitError extends Error {
+    /** PackageKit error enum value */
+    code: number;
+    /** Free-text details from the backend */
+    details: string;
+    kind: PackageKitErrorKind;
+    /** Suggested action for the user */
+    hint: string;
+    /** Whether running the transaction again later is likely to succeed */
+    transient: boolean;
+
+    constructor(code: number, details: string) {
+        const { kind, message, hint, transient } = describeError(code);
+        super(message || details || _("PackageKit error"));
+        this.name = "PackageKitError";
+        this.code = code;
+        this.details = details;
+        this.kind = kind;
+        this.hint = hint;
+        this.transient = transient;
+    }
+}
+
+/**
+ * Explain a PackageKit error code; unknown codes keep the backend's own message
+ */
+function describeError(code: number): { kind: PackageKitErrorKind; message: string; hint: string; transient: boolean } {
+    switch (code) {
+    case PkError.CANNOT_GET_LOCK:
+    case PkError.LOCK_REQUIRED:
+        return {
+            kind: "lock",
+            message: _("Another package manager holds the lock"),
+            hint: _("Wait for the running package manager (for example unattended-upgrades or dnf-automatic) to finish."),
+            transient: true,
+        };
+    case PkError.UNFINISHED_TRANSACTION:
+        return {
+            kind: "lock",
+            message: _("A previous package transaction did not finish"),
+            hint: _("Complete it on the machine, e.g. with \"dpkg --configure -a\" or \"dnf history redo last\"."),
+            transient: false,
+        };
+    case PkError.NO_NETWORK:
+    case PkError.PACKAGE_DOWNLOAD_FAILED:
+    case PkError.NO_MORE_MIRRORS_TO_TRY:
+    case PkError.CANNOT_FETCH_SOURCES:
+    case PkError.REPO_NOT_AVAILABLE:
+        return {
+            kind: "network",
+            message: _("Repository metadata unavailable"),
+            hint: _("Check the machine's network access and that its repository mirrors are reachable."),
+            transient: true,
+        };
+    case PkError.DISCONNECTED:
+        return {
+            kind: "network",
+            message: _("The connection to the machine was lost"),
+            hint: _("Check that the machine is reachable, then retry."),
+            transient: true,
+        };
+    case PkError.NO_CACHE:
+        return {
+            kind: "cache",
+            message: _("The package cache is missing"),
+            hint: _("Check the machine again to refresh its package cache."),
+            transient: false,
+        };
+    case PkError.GPG_FAILURE:
+    case PkError.BAD_GPG_SIGNATURE:
+    case PkError.MISSING_GPG_SIGNATURE:
+    case PkError.CANNOT_INSTALL_REPO_UNSIGNED:
+    case PkError.CANNOT_UPDATE_REPO_UNSIGNED:
+        return {
+            kind: "gpg",
+            message: _("GPG key missing or signature invalid"),
+            hint: _("Import the signing key of the repository on the machine, or check that the repository is genuine."),
+            transient: false,
+        };
+    case PkError.DEP_RESOLUTION_FAILED:
+    case PkError.FILE_CONFLICTS:
+    case PkError.PACKAGE_CONFLICTS:
+        return {
+            kind: "dependencies",
+            message: _("Dependencies could not be resolved"),
+            hint: _("Review the preview and resolve the conflicting packages on the machine."),
+            transient: false,
+        };
+    case PkError.REPO_NOT_FOUND:
+    case PkError.REPO_CONFIGURATION_ERROR:
+    case PkError.FAILED_CONFIG_PARSING:
+        return {
+            kind: "repository",
+            message: _("Repository configuration error"),
+            hint: _("Fix the repository definitions on the machine."),
+            transient: false,
+        };
+    case PkError.NO_SPACE_ON_DEVICE:
+        return {
+            kind: "disk",
+            message: _("Not enough disk space"),
+            hint: _("Free space on the machine, for example by cleaning the package cache."),
+            transient: false,
+        };
+    case PkError.NOT_AUTHORIZED:
+        return {
+            kind: "authorization",
+            message: _("Not authorized to manage packages"),
+            hint: _("Log in with administrative access on the machine."),
+            transient: false,
+        };
+    case PkError.PACKAGE_DATABASE_CHANGED:
+        // The package IDs asked for may no longer be the pending updates
+        return {
+            kind: "stale",
+            message: _("The package database changed during the transaction"),
+            hint: _("Check the machine again to refresh its list of updates, then retry."),
+            transient: false,
+        };
+    case PkError.PACKAGE_ID_INVALID:
+    case PkError.PACKAGE_NOT_FOUND:
+    case PkError.UPDATE_NOT_FOUND:
+        return {
+            kind: "stale",
+            message: _("The update is no longer available"),
+            hint: _("Check the machine again to refresh its list of updates."),
+            transient: false,
+        };
+    case PkError.UPDATE_FAILED_DUE_TO_RUNNING_PROCESS:
+        return {
+            kind: "lock",
+            message: _("A running process prevents the update"),
+            hint: _("Close the applications using the packages being updated."),
+            transient: false,
+        };
+    default:
+        return { kind: "other", message: "", hint: "", transient: false };
+    }
+}
+
+/**
+ * Options of automatic retries
+ */
+export interface RetryOptions {
+    /** Total number of attempts, including the first one */
+    attempts: number;
+    /** Delay before the first retry in milliseconds, doubled for each following one */
+    baseDelay: number;
+    maxDelay: number;
+    /** Aborting stops waiting and rethrows the last error */
+    signal?: AbortSignal;
+    /** Returning false rethrows a transient error instead of retrying */
+    canRetry?: () => boolean;
+    onRetry?: (error: PackageKitError, attempt: number, delay: number) => void;
+}
+
+export const DEFAULT_RETRY_OPTIONS: RetryOptions = {
+    attempts: 5,
+    baseDelay: 5000,
+    maxDelay: 60000,
+};
+
+/**
+ * Run `operation` again with exponential backoff while it fails with a transient PackageKit error
+ */
+export async function withRetry<T>(operation: () => Promise<T>, options: Partial<RetryOptions> = {}): Promise<T> {
+    const { attempts, baseDelay, maxDelay, signal, canRetry, onRetry } = { ...DEFAULT_RETRY_OPTIONS, ...options };
+
+    for (let attempt = 1; ; attempt++) {
+        try {
+            return await operation();
+        } catch (error) {
+            if (!(error instanceof PackageKitError) || !error.transient || attempt >= attempts || signal?.aborted ||
+                (canRetry && !canRetry())) {
+                throw error;
+            }
+
+            const delay = Math.min(maxDelay, baseDelay * 2 ** (attempt - 1));
+            onRetry?.(error, attempt, delay);
+            const aborted = await new Promise<boolean>(resolve => {
+                const timer = window.setTimeout(() => {
+                    signal?.removeEventListener("abort", onAbort);
+                    resolve(false);
+                }, delay);
+                const onAbort = () => {
+                    window.clearTimeout(timer);
+                    resolve(true);
+                };
+                signal?.addEventListener("abort", onAbort, { once: true });
+            });
+            if (aborted) {
+                throw error;
+            }
+        }
+    }
+}
+
+/**
+ * Outcome of a finished transaction
+ */
+export interface TransactionResult {
+    /** PackageKit exit enum value */
+    exit: number;
+    /** Run time in milliseconds */
+    runtime: number;
+}
+
+/**
+ * Options of a transaction run
+ */
+export interface TransactionOptions {
+    /** Handlers of transaction signals (Package, Percentage, ...) by signal name */
+    signals?: Record<string, (args: unknown[]) => void>;
+    /** Aborting cancels the transaction, which then resolves with a cancelled exit */
+    signal?: AbortSignal;
+}
+
+// One D-Bus client per host, reused by every transaction on that host
+const clients = new Map<string, cockpit.DBusClient>();
+
+/**
+ * Get the shared PackageKit D-Bus client of a host
+ */
+export function getPackageKitClient(host: string): cockpit.DBusClient {
+    let client = clients.get(host);
+    if (!client) {
+        const created = cockpit.dbus(PK_SERVICE, host === "localhost" ? {} : { host });
+        // Forget the client once its channel closes so the next call reconnects
+        created.addEventListener("close", () => {
+            if (clients.get(host) === created) {
+                clients.delete(host);
+            }
+        });
+        clients.set(host, created);
+        client = created;
+    }
+    return client;
+}
+
+/**
+ * Close the PackageKit client of a host, or of every host
+ */
+export function closePackageKitClients(host?: string): void {
+    for (const [key, client] of [...clients]) {
+        if (host === undefined || key === host) {
+            clients.delete(key);
+            client.close();
+        }
+    }
+}
+
+/**
+ * Whether PackageKit can be used on a host
+ * PackageKit is D-Bus activated, so this also starts it when it is installed
+ */
+export async function isPackageKitAvailable(host: string): Promise<boolean> {
+    try {
+        await getPackageKitClient(host).call(PK_PATH, "org.freedesktop.DBus.Properties", "Get", [PK_SERVICE, "VersionMajor"]);
+        return true;
+    } catch (error) {
+        const { name, problem, message } = error as { name?: string; problem?: string; message?: string };
+        if (name === "org.freedesktop.DBus.Error.ServiceUnknown" || problem === "not-found" ||
+            message?.includes("ServiceUnknown")) {
+            return false;
+        }
+        throw error;
+    }
+}
+
+/**
+ * Get the roles of the transactions currently queued or running on a host
+ */
+export async function getTransactionRoles(host: string): Promise<number[]> {
+    const client = getPackageKitClient(host);
+    const [paths] = await client.call(PK_PATH, PK_SERVICE, "GetTransactionList", []) as [string[]];
+    const roles = await Promise.all(paths.map(async path => {
+        try {
+            const [role] = await client.call(path, "org.freedesktop.DBus.Properties", "Get",
+                                             [PK_TRANSACTION_IFACE, "Role"]) as [{ v: number }];
+            return role.v;
+        } catch {
+            // The transaction finished in the meantime
+            return null;
+        }
+    }));
+    return roles.filter((role): role is number => role !== null);
+}
+
+/**
+ * Run a PackageKit transaction method and resolve once it finished
+ *
+ * Signal handlers are subscribed before the method is called and always
+ * removed afterwards, whether the transaction succeeded, failed or was
+ * cancelled. An ErrorCode signal rejects the promise with a PackageKitError,
+ * and so does the client's channel closing before the transaction finished.
+ */
+export async function runTransaction(
+    host: string,
+    method: string,
+    args: unknown[],
+    options: TransactionOptions = {}
+): Promise<TransactionResult> {
+    const client = getPackageKitClient(host);
+    const { signal } = options;
+
+    const [path] = await client.call(PK_PATH, PK_SERVICE, "CreateTransaction", []) as [string];
+    if (!path) {
+        throw new Error(_("Failed to create PackageKit transaction"));
+    }
+
+    const subscriptions: { remove(): void }[] = [];
+    const subscribe = (member: string, handler: (args: unknown[]) => void) => {
+        subscriptions.push(client.subscribe(
+            { path, interface: PK_TRANSACTION_IFACE, member },
+            (_path: string, _iface: string, _signal: string, signalArgs: unknown[]) => handler(signalArgs)
+        ));
+    };
+
+    const cancel = () => {
+        client.call(path, PK_TRANSACTION_IFACE, "Cancel", [])
+            .catch((error: Error) => console.warn("Failed to cancel PackageKit transaction:", error));
+    };
+
+    let onClose: ((event: unknown, options: { problem?: string }) => void) | undefined;
+
+    try {
+        for (const [member, handler] of Object.entries(options.signals || {})) {
+            subscribe(member, handler);
+        }
+
+        return await new Promise<TransactionResult>((resolve, reject) => {
+            subscribe("Finished", signalArgs => {
+                resolve({ exit: signalArgs[0] as number, runtime: signalArgs[1] as number });
+            });
+            subscribe("ErrorCode", signalArgs => {
+                // A cancelled transaction reports an error before finishing
+                if (signal?.aborted) {
+                    resolve({ exit: PkExit.CANCELLED, runtime: 0 });
+                } else {
+                    reject(new PackageKitError(signalArgs[0] as number, signalArgs[1] as string));
+                }
+            });
+
+            // A dropped host or restarted bridge never sends Finished
+            onClose = (_event, { problem }) => {
+                reject(new PackageKitError(PkError.DISCONNECTED, problem || ""));
+            };
+            client.addEventListener("close", onClose);
+
+            // A signal aborted before this point never fires its abort event
+            if (signal?.aborted) {
+                resolve({ exit: PkExit.CANCELLED, runtime: 0 });
+                return;
+            }
+            signal?.addEventListener("abort", cancel, { once: true });
+            client.call(path, PK_TRANSACTION_IFACE, method, args).catch(reject);
+        });
+    } finally {
+        signal?.removeEventListener("abort", cancel);
+        if (onClose) {
+            client.removeEventListener("close", onClose);
+        }
+        subscriptions.forEach(subscription => subscription.remove());
+    }
+}
+
+/**
+ * Whether a transaction exit value means it was cancelled
+ */
+export function isCancelled(result: TransactionResult): boolean {
+    return result.exit === PkExit.CANCELLED || result.exit === PkExit.CANCELLED_PRIORITY;
+}
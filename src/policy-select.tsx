@@ -0,0 +1,48 @@
+/*
+ * This file is part of Cockpit Machines Dashboard.
+ *
+ * Copyright (C) 2026
+ *
+ * Cockpit is free software; you can redistribute it and/or modify it
+ * under the terms of the GNU Lesser General Public License as published by
+ * the Free Software Foundation; either version 2.1 of the License, or
+ * (at your option) any later version.
+ */
+
+import cockpit from "cockpit";
+import React from "react";
+
+import { FormSelect, FormSelectOption } from "@patternfly/react-core";
+
+import {
+    type InstallPolicy,
+    INSTALL_POLICIES,
+    getPolicyDescription,
+} from "./machines-api";
+
+const _ = cockpit.gettext;
+
+/**
+ * Selector for the severity threshold of an install
+ */
+export const PolicySelect = ({
+    policy,
+    onChange,
+    isDisabled,
+}: {
+    policy: InstallPolicy;
+    onChange: (policy: InstallPolicy) => void;
+    isDisabled?: boolean;
+}) => (
+    <FormSelect
+        className="policy-select"
+        value={policy}
+        onChange={(_event, value) => onChange(value as InstallPolicy)}
+        aria-label={_("Updates to install")}
+        isDisabled={isDisabled}
+    >
+        {INSTALL_POLICIES.map(p => (
+            <FormSelectOption key={p} value={p} label={getPolicyDescription(p)} />
+        ))}
+    </FormSelect>
+);
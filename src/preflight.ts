@@ -0,0 +1,132 @@
+/*
+ * This file is part of Cockpit Machines Dashboard.
+ *
+ * Copyright (C) 2026
+ *
+ * Cockpit is free software; you can redistribute it and/or modify it
+ * under the terms of the GNU Lesser General Public License as published by
+ * the Free Software Foundation; either version 2.1 of the License, or
+ * (at your option) any later version.
+ */
+
+import cockpit from "cockpit";
+
+import {
+    type InstallPolicy,
+    getBackend,
+    getHostFacts,
+    getPolicyPackageIds,
+    hasRunningTransaction,
+} from "./machines-api";
+
+const _ = cockpit.gettext;
+
+/**
+ * Options controlling the checks run on a host before installing updates
+ */
+export interface PreflightOptions {
+    /** Run the checks before every install */
+    enabled: boolean;
+    /** Require free space for the download on the filesystem of /var */
+    checkDisk: boolean;
+    /** Free space kept on every checked filesystem on top of the download, in MiB */
+    diskMarginMiB: number;
+    /** Skip hosts where another package manager or PackageKit transaction is running */
+    checkBusy: boolean;
+    /** Highest 1-minute load average per CPU, 0 disables the check */
+    maxLoad: number;
+}
+
+export const DEFAULT_PREFLIGHT_OPTIONS: PreflightOptions = {
+    enabled: true,
+    checkDisk: true,
+    diskMarginMiB: 500,
+    checkBusy: true,
+    maxLoad: 4,
+};
+
+/**
+ * Shell script printing the number of CPUs, then the running package
+ * manager processes as "pid name"; process names are cut at 15 characters
+ */
+const PROCESS_SCRIPT = `
+nproc
+pgrep -l -x 'apt|apt-get|aptitude|dpkg|unattended-upgr|dnf|dnf5|dnf-automatic|yum|rpm|zypper' || true
+`;
+
+/**
+ * Read the CPU count of a host and the package manager processes running on it
+ */
+async function readProcesses(host: string): Promise<{ cpus: number; processes: string[] }> {
+    const output: string = await cockpit.spawn(["/bin/sh", "-c", PROCESS_SCRIPT],
+                                               host === "localhost" ? {} : { host });
+    const [cpus, ...lines] = output.trim().split("\n");
+    return {
+        cpus: Number(cpus) || 1,
+        processes: lines.map(line => line.trim().split(/\s+/)[1]).filter(Boolean),
+    };
+}
+
+/**
+ * Check whether a host is fit for installing updates
+ *
+ * The download size is that of `packageIds`, or of the updates the policy
+ * selects when no explicit list is given. Resolves with the reasons the
+ * host must be skipped, an empty list when every check passed.
+ */
+export async function runPreflight(
+    host: string,
+    options: PreflightOptions,
+    policy: InstallPolicy,
+    packageIds?: string[]
+): Promise<string[]> {
+    const reasons: string[] = [];
+    const backend = await getBackend(host);
+    const [facts, { cpus, processes }] = await Promise.all([getHostFacts(host), readProcesses(host)]);
+
+    if (!facts) {
+        return [_("Could not read the disk space and load of the machine")];
+    }
+
+    if (options.checkDisk) {
+        const ids = packageIds ?? await getPolicyPackageIds(host, policy);
+        let downloadSize = 0;
+        try {
+            downloadSize = ids.length > 0 ? await backend.getDownloadSize(host, ids) : 0;
+        } catch (error) {
+            // Without a size only the margin is required
+            console.warn(`Failed to get the download size on ${host}:`, error);
+        }
+
+        // Packages are downloaded below /var, every filesystem keeps the margin
+        const margin = options.diskMarginMiB * 1024 * 1024;
+        const cache = facts.disks.find(disk => disk.path === "/var");
+        const disks = facts.disks.filter((disk, index) =>
+            facts.disks.findIndex(other => other.mount === disk.mount) === index
+        );
+        for (const disk of disks) {
+            const required = margin + (disk.mount === cache?.mount ? downloadSize : 0);
+            if (disk.available < required) {
+                reasons.push(cockpit.format(_("Only $0 free on $1, $2 needed"),
+                                            cockpit.format_bytes(disk.available), disk.mount,
+                                            cockpit.format_bytes(required)));
+            }
+        }
+    }
+
+    if (options.checkBusy) {
+        if (processes.length > 0) {
+            reasons.push(cockpit.format(_("Another package manager is running: $0"), [...new Set(processes)].join(", ")));
+        }
+        if (backend.id === "packagekit" && await hasRunningTransaction(host)) {
+            reasons.push(_("Another PackageKit transaction is running"));
+        }
+    }
+
+    if (options.maxLoad > 0 && facts.load.length > 0 && facts.load[0] / cpus > options.maxLoad) {
+        reasons.push(cockpit.format(_("Load $0 is above $1 per CPU ($2 CPUs)"),
+                                    facts.load[0].toFixed(2), options.maxLoad, cpus));
+    }
+
+    return reasons;
+}
@@ -0,0 +1,251 @@
+/*
+ * This file is part of Cockpit Machines Dashboard.
+ *
+ * Copyright (C) 2026
+ *
+ * Cockpit is free software; you can redistribute it and/or modify it
+ * under the terms of the GNU Lesser General Public License as published by
+ * the Free Software Foundation; either version 2.1 of the License, or
+ * (at your option) any later version.
+ */
+
+import cockpit from "cockpit";
+import React, { useState, useEffect } from "react";
+
+import {
+    Alert,
+    Button,
+    EmptyState,
+    ExpandableSection,
+    Label,
+    LabelGroup,
+    Modal,
+    ModalBody,
+    ModalFooter,
+    ModalHeader,
+    Spinner,
+} from "@patternfly/react-core";
+import {
+    Table,
+    Tbody,
+    Td,
+    Th,
+    Thead,
+    Tr,
+} from "@patternfly/react-table";
+
+import {
+    type ChangeKind,
+    type InstallPolicy,
+    type InstallResult,
+    CHANGE_KINDS,
+    getChangeKindDescription,
+    installPackagesOnHost,
+    installUpdatesOnHost,
+} from "./machines-api";
+import { runWithTimeout } from "./probe";
+
+const _ = cockpit.gettext;
+
+/**
+ * A host whose install is previewed; without `packageIds` the updates matching the policy are simulated
+ */
+export interface PreviewTarget {
+    host: string;
+    label: string;
+    packageIds?: string[];
+}
+
+/**
+ * Label colour of each change kind, changes taking packages away stand out
+ */
+const CHANGE_COLORS: Record<ChangeKind, "blue" | "green" | "red" | "orange" | "grey"> = {
+    install: "green",
+    update: "blue",
+    remove: "red",
+    obsolete: "orange",
+    downgrade: "orange",
+    reinstall: "grey",
+};
+
+/**
+ * Changes listed for one host in the preview
+ */
+const HostChanges = ({
+    target,
+    result,
+    isExpanded,
+}: {
+    target: PreviewTarget;
+    result: InstallResult | undefined;
+    isExpanded: boolean;
+}) => {
+    const [expanded, setExpanded] = useState(isExpanded);
+
+    if (!result) {
+        return null;
+    }
+
+    if (!result.success || !result.changes) {
+        return (
+            <Alert
+                isInline
+                isPlain
+                variant="warning"
+                title={cockpit.format(_("Could not preview $0: $1"), target.label, result.error || _("Unknown error"))}
+            />
+        );
+    }
+
+    const changes = result.changes;
+    const rows = CHANGE_KINDS.flatMap(kind => changes[kind].map(pkg => ({ kind, pkg })));
+
+    const toggle = (
+        <>
+            {target.label}{" "}
+            <LabelGroup isCompact>
+                {CHANGE_KINDS.filter(kind => changes[kind].length > 0).map(kind => (
+                    <Label key={kind} isCompact color={CHANGE_COLORS[kind]}>
+                        {getChangeKindDescription(kind)}: {changes[kind].length}
+                    </Label>
+                ))}
+            </LabelGroup>
+        </>
+    );
+
+    if (rows.length === 0) {
+        return <div className="preview-host">{cockpit.format(_("$0: nothing to change"), target.label)}</div>;
+    }
+
+    return (
+        <ExpandableSection
+            className="preview-host"
+            toggleContent={toggle}
+            isExpanded={expanded}
+            onToggle={(_event, value) => setExpanded(value)}
+        >
+            <Table aria-label={cockpit.format(_("Changes on $0"), target.label)} variant="compact">
+                <Thead>
+                    <Tr>
+                        <Th>{_("Change")}</Th>
+                        <Th>{_("Package")}</Th>
+                        <Th>{_("Version")}</Th>
+                        <Th>{_("Arch")}</Th>
+                        <Th>{_("Repository")}</Th>
+                    </Tr>
+                </Thead>
+                <Tbody>
+                    {rows.map(({ kind, pkg }) => (
+                        <Tr key={`${kind}-${pkg.id}`}>
+                            <Td dataLabel={_("Change")}>
+                                <Label isCompact color={CHANGE_COLORS[kind]}>{getChangeKindDescription(kind)}</Label>
+                            </Td>
+                            <Td dataLabel={_("Package")}>{pkg.name}</Td>
+                            <Td dataLabel={_("Version")}>{pkg.version}</Td>
+                            <Td dataLabel={_("Arch")}>{pkg.arch}</Td>
+                            <Td dataLabel={_("Repository")}>{pkg.repo}</Td>
+                        </Tr>
+                    ))}
+                </Tbody>
+            </Table>
+        </ExpandableSection>
+    );
+};
+
+/**
+ * Dialog showing the changes an install resolves to before running it
+ *
+ * Every target is simulated with PackageKit's SIMULATE flag when the dialog
+ * opens; the real install only starts once the user confirms. A simulation
+ * running longer than `timeoutSeconds` is cancelled and its host shown as
+ * failed, so one unresponsive host does not hold up the others.
+ */
+export const PreviewDialog = ({
+    title,
+    targets,
+    policy,
+    timeoutSeconds,
+    onConfirm,
+    onClose,
+}: {
+    title: string;
+    targets: PreviewTarget[];
+    policy: InstallPolicy;
+    timeoutSeconds: number;
+    onConfirm: () => void;
+    onClose: () => void;
+}) => {
+    const [results, setResults] = useState<Record<string, InstallResult>>({});
+
+    useEffect(() => {
+        // Closing the dialog cancels the simulations still running
+        const controller = new AbortController();
+
+        targets.forEach(target => {
+            const simulation = runWithTimeout(
+                signal => target.packageIds
+                    ? installPackagesOnHost(target.host, target.packageIds, undefined, signal, true)
+                    : installUpdatesOnHost(target.host, undefined, policy, signal, true),
+                timeoutSeconds,
+                cockpit.format(_("Resolving dependencies timed out after $0 seconds"), timeoutSeconds),
+                controller.signal
+            ).catch((error: Error): InstallResult => ({ success: false, error: error.message }));
+
+            simulation.then(result => {
+                if (!controller.signal.aborted) {
+                    setResults(prev => ({ ...prev, [target.host]: result }));
+                }
+            });
+        });
+
+        return () => controller.abort();
+    }, [targets, policy, timeoutSeconds]);
+
+    const resolved = targets.filter(target => results[target.host]).length;
+    const loading = resolved < targets.length;
+    const destructive = targets.some(target => {
+        const changes = results[target.host]?.changes;
+        return changes && (changes.remove.length > 0 || changes.obsolete.length > 0 || changes.downgrade.length > 0);
+    });
+
+    return (
+        <Modal isOpen variant="large" onClose={onClose} aria-labelledby="preview-dialog-title">
+            <ModalHeader title={title} labelId="preview-dialog-title" />
+            <ModalBody>
+                {loading && (
+                    <EmptyState
+                        titleText={cockpit.format(_("Resolving dependencies ($0 of $1 machines)..."), resolved, targets.length)}
+                        icon={Spinner}
+                    />
+                )}
+                {destructive && (
+                    <Alert
+                        isInline
+                        variant="warning"
+                        title={_("Some packages will be removed, obsoleted or downgraded")}
+                    />
+                )}
+                {targets.map(target => (
+                    <HostChanges
+                        key={target.host}
+                        target={target}
+                        result={results[target.host]}
+                        isExpanded={targets.length === 1}
+                    />
+                ))}
+            </ModalBody>
+            <ModalFooter>
+                <Button
+                    variant={destructive ? "warning" : "primary"}
+                    onClick={onConfirm}
+                    isDisabled={loading}
+                >
+                    {_("Install")}
+                </Button>
+                <Button variant="link" onClick={onClose}>
+                    {_("Cancel")}
+                </Button>
+            </ModalFooter>
+        </Modal>
+    );
+};
@@ -0,0 +1,140 @@
+/*
+ * This file is part of Cockpit Machines Dashboard.
+ *
+ * Copyright (C) 2026
+ *
+ * Cockpit is free software; you can redistribute it and/or modify it
+ * under the terms of the GNU Lesser General Public License as published by
+ * the Free Software Foundation; either version 2.1 of the License, or
+ * (at your option) any later version.
+ */
+
+import cockpit from "cockpit";
+
+import {
+    type UpdateInfo,
+    checkMachineConnection,
+    getErrorHint,
+    getUpdatesForHost,
+    refreshPackageCache,
+    withTimeout,
+} from "./machines-api";
+import { type BulkRun, DEFAULT_BULK_OPTIONS, runBulkJobs } from "./bulk-runner";
+
+const _ = cockpit.gettext;
+
+/**
+ * Options controlling how machines are probed for updates
+ */
+export interface ProbeOptions {
+    /** Maximum number of machines probed at the same time */
+    concurrency: number;
+    /** Seconds allowed to reach the machine */
+    connectSeconds: number;
+    /** Seconds allowed to refresh the package cache */
+    refreshSeconds: number;
+    /** Seconds allowed to list the pending updates */
+    updatesSeconds: number;
+}
+
+export const DEFAULT_PROBE_OPTIONS: ProbeOptions = {
+    concurrency: 8,
+    connectSeconds: 10,
+    refreshSeconds: 120,
+    updatesSeconds: 60,
+};
+
+/**
+ * Outcome of probing a single machine
+ */
+export interface ProbeResult {
+    state: "connected" | "failed";
+    hostname: string | null;
+    /** Pending updates, null when a step failed */
+    updates: UpdateInfo | null;
+    error: string | null;
+    /** Suggested action for PackageKit errors */
+    errorHint?: string;
+}
+
+/**
+ * Run a step that is cancelled when it times out or when `signal` aborts
+ */
+export function runWithTimeout<T>(
+    step: (signal: AbortSignal) => Promise<T>,
+    seconds: number,
+    message: string,
+    signal?: AbortSignal
+): Promise<T> {
+    const controller = new AbortController();
+    const onAbort = () => controller.abort();
+    if (signal?.aborted) {
+        onAbort();
+    }
+    signal?.addEventListener("abort", onAbort, { once: true });
+    return withTimeout(step(controller.signal), seconds * 1000, message, controller)
+        .finally(() => signal?.removeEventListener("abort", onAbort));
+}
+
+/**
+ * Connect to a machine, optionally refresh its package cache, and read its pending updates
+ *
+ * Each step is bounded by its own timeout so a hung host fails on its own
+ * instead of holding up the caller. A step that times out, or is running when
+ * `signal` aborts, is cancelled on the host.
+ */
+export async function probeMachine(
+    host: string,
+    options: ProbeOptions,
+    steps: { connect: boolean; refresh: boolean },
+    signal?: AbortSignal
+): Promise<ProbeResult> {
+    let hostname: string | null = null;
+
+    if (steps.connect) {
+        const connection = await checkMachineConnection(host, options.connectSeconds * 1000);
+        if (connection.state !== "connected") {
+            return { state: "failed", hostname: null, updates: null, error: connection.error || _("Machine not connected") };
+        }
+        hostname = connection.hostname;
+    }
+
+    try {
+        if (steps.refresh) {
+            await runWithTimeout(stepSignal => refreshPackageCache(host, stepSignal), options.refreshSeconds,
+                                 cockpit.format(_("Refreshing the package cache timed out after $0 seconds"), options.refreshSeconds),
+                                 signal);
+        }
+        const updates = await runWithTimeout(stepSignal => getUpdatesForHost(host, stepSignal), options.updatesSeconds,
+                                             cockpit.format(_("Listing updates timed out after $0 seconds"), options.updatesSeconds),
+                                             signal);
+        return { state: "connected", hostname, updates, error: updates.error, errorHint: updates.errorHint };
+    } catch (error) {
+        return { state: "connected", hostname, updates: null, error: (error as Error).message, errorHint: getErrorHint(error) };
+    }
+}
+
+/**
+ * Probe many machines with a bounded number in flight
+ *
+ * `onStart` is called when a machine's probe starts and `onResult` as soon as
+ * it settles, so slow machines don't delay the others. Aborting the run
+ * cancels the running probes, which then report no result.
+ */
+export function probeMachines(
+    hosts: string[],
+    options: ProbeOptions,
+    steps: (host: string) => { connect: boolean; refresh: boolean },
+    onResult: (host: string, result: ProbeResult) => void,
+    onStart?: (host: string) => void
+): BulkRun {
+    return runBulkJobs(hosts, async (host, signal) => {
+        onStart?.(host);
+        const result = await probeMachine(host, options, steps(host), signal);
+        if (signal.aborted) {
+            return false;
+        }
+        onResult(host, result);
+        return !result.error;
+    }, { ...DEFAULT_BULK_OPTIONS, concurrency: options.concurrency });
+}
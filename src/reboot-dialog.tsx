@@ -0,0 +1,129 @@
+/*
+ * This file is part of Cockpit Machines Dashboard.
+ *
+ * Copyright (C) 2026
+ *
+ * Cockpit is free software; you can redistribute it and/or modify it
+ * under the terms of the GNU Lesser General Public License as published by
+ * the Free Software Foundation; either version 2.1 of the License, or
+ * (at your option) any later version.
+ */
+
+import cockpit from "cockpit";
+import React, { useState } from "react";
+
+import {
+    Button,
+    Checkbox,
+    Form,
+    FormGroup,
+    Modal,
+    ModalBody,
+    ModalFooter,
+    ModalHeader,
+    Radio,
+    TextInput,
+} from "@patternfly/react-core";
+
+const _ = cockpit.gettext;
+
+/**
+ * Reboot settings chosen in the dialog
+ */
+export interface RebootRequest {
+    when: Date | null;
+    oneAtATime: boolean;
+}
+
+/**
+ * Format a date for a datetime-local input
+ */
+const toLocalInput = (date: Date): string => {
+    const pad = (n: number) => String(n).padStart(2, "0");
+    return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}T${pad(date.getHours())}:${pad(date.getMinutes())}`;
+};
+
+/**
+ * Dialog to reboot one or several machines now or at a scheduled time
+ */
+export const RebootDialog = ({
+    labels,
+    onConfirm,
+    onClose,
+}: {
+    labels: string[];
+    onConfirm: (request: RebootRequest) => void;
+    onClose: () => void;
+}) => {
+    const [scheduled, setScheduled] = useState(false);
+    const [time, setTime] = useState(() => toLocalInput(new Date(Date.now() + 60 * 60000)));
+    const [oneAtATime, setOneAtATime] = useState(true);
+
+    const when = scheduled ? new Date(time) : null;
+    const invalidTime = scheduled && (!when || isNaN(when.getTime()) || when.getTime() <= Date.now());
+
+    const title = labels.length === 1
+        ? cockpit.format(_("Reboot $0"), labels[0])
+        : cockpit.format(_("Reboot $0 machines"), labels.length);
+
+    return (
+        <Modal isOpen variant="small" onClose={onClose} aria-labelledby="reboot-dialog-title">
+            <ModalHeader title={title} labelId="reboot-dialog-title" titleIconVariant="warning" />
+            <ModalBody>
+                <Form onSubmit={event => event.preventDefault()}>
+                    {labels.length > 1 && (
+                        <FormGroup label={_("Machines")}>
+                            {labels.join(", ")}
+                        </FormGroup>
+                    )}
+                    <FormGroup role="radiogroup" label={_("When")} isStack>
+                        <Radio
+                            id="reboot-now"
+                            name="reboot-when"
+                            label={_("Reboot now")}
+                            isChecked={!scheduled}
+                            onChange={() => setScheduled(false)}
+                        />
+                        <Radio
+                            id="reboot-scheduled"
+                            name="reboot-when"
+                            label={_("Reboot at a scheduled time")}
+                            isChecked={scheduled}
+                            onChange={() => setScheduled(true)}
+                        />
+                        {scheduled && (
+                            <TextInput
+                                type="datetime-local"
+                                aria-label={_("Reboot time")}
+                                value={time}
+                                onChange={(_event, value) => setTime(value)}
+                                validated={invalidTime ? "error" : "default"}
+                            />
+                        )}
+                    </FormGroup>
+                    {labels.length > 1 && (
+                        <Checkbox
+                            id="reboot-one-at-a-time"
+                            label={_("Reboot one machine at a time")}
+                            description={_("Wait for each machine to come back before rebooting the next one.")}
+                            isChecked={oneAtATime}
+                            onChange={(_event, checked) => setOneAtATime(checked)}
+                        />
+                    )}
+                </Form>
+            </ModalBody>
+            <ModalFooter>
+                <Button
+                    variant="warning"
+                    onClick={() => onConfirm({ when, oneAtATime })}
+                    isDisabled={invalidTime}
+                >
+                    {scheduled ? _("Schedule reboot") : _("Reboot")}
+                </Button>
+                <Button variant="link" onClick={onClose}>
+                    {_("Cancel")}
+                </Button>
+            </ModalFooter>
+        </Modal>
+    );
+};
@@ -0,0 +1,109 @@
+/*
+ * This file is part of Cockpit Machines Dashboard.
+ *
+ * Copyright (C) 2026
+ *
+ * Cockpit is free software; you can redistribute it and/or modify it
+ * under the terms of the GNU Lesser General Public License as published by
+ * the Free Software Foundation; either version 2.1 of the License, or
+ * (at your option) any later version.
+ */
+
+/**
+ * Options controlling the background update checks
+ */
+export interface RecheckOptions {
+    /** Recheck connected machines automatically */
+    enabled: boolean;
+    /** Minutes between two checks of the same machine */
+    intervalMinutes: number;
+    /** Minutes after which a machine's update status is shown as stale */
+    staleMinutes: number;
+}
+
+export const DEFAULT_RECHECK_OPTIONS: RecheckOptions = {
+    enabled: true,
+    intervalMinutes: 30,
+    staleMinutes: 60,
+};
+
+/**
+ * What the scheduler needs to know about a machine
+ */
+export interface RecheckCandidate {
+    key: string;
+    connected: boolean;
+    /** A check or an update is already running on the machine */
+    busy: boolean;
+    lastChecked: Date | null;
+}
+
+// Bounds of the delay between two background checks
+const MIN_STAGGER_MS = 2000;
+const MAX_STAGGER_MS = 30000;
+
+/**
+ * Whether an update status checked at `lastChecked` is older than the stale threshold
+ */
+export function isStale(lastChecked: Date | null, options: RecheckOptions, now = Date.now()): boolean {
+    return !!lastChecked && now - lastChecked.getTime() > options.staleMinutes * 60000;
+}
+
+/**
+ * Pick the idle connected machine checked longest ago, if it is due
+ */
+export function nextRecheck(candidates: RecheckCandidate[], options: RecheckOptions, now = Date.now()): string | null {
+    let next: RecheckCandidate | null = null;
+
+    for (const candidate of candidates) {
+        if (!candidate.connected || candidate.busy || !candidate.lastChecked) continue;
+        if (now - candidate.lastChecked.getTime() < options.intervalMinutes * 60000) continue;
+        if (!next || candidate.lastChecked < next.lastChecked!) {
+            next = candidate;
+        }
+    }
+
+    return next?.key ?? null;
+}
+
+/**
+ * Run background checks one machine at a time, spread over the interval
+ *
+ * The delay between two checks is the interval divided by the number of
+ * machines, so a full pass takes about one interval without every host
+ * hitting PackageKit at once. Returns a function stopping the scheduler.
+ */
+export function scheduleRechecks(
+    getCandidates: () => RecheckCandidate[],
+    check: (key: string) => Promise<unknown>,
+    options: RecheckOptions
+): () => void {
+    let timer: number | undefined;
+    let stopped = false;
+
+    const tick = async () => {
+        const candidates = getCandidates();
+        const key = nextRecheck(candidates, options);
+        if (key) {
+            try {
+                await check(key);
+            } catch (error) {
+                console.warn("Background update check failed:", key, error);
+            }
+        }
+
+        if (!stopped) {
+            const stagger = options.intervalMinutes * 60000 / Math.max(candidates.length, 1);
+            timer = window.setTimeout(tick, Math.min(MAX_STAGGER_MS, Math.max(MIN_STAGGER_MS, stagger)));
+        }
+    };
+
+    if (options.enabled) {
+        timer = window.setTimeout(tick, MIN_STAGGER_MS);
+    }
+
+    return () => {
+        stopped = true;
+        window.clearTimeout(timer);
+    };
+}
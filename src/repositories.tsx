@@ -0,0 +1,375 @@
+/*
+ * This file is part of Cockpit Machines Dashboard.
+ *
+ * Copyright (C) 2026
+ *
+ * Cockpit is free software; you can redistribute it and/or modify it
+ * under the terms of the GNU Lesser General Public License as published by
+ * the Free Software Foundation; either version 2.1 of the License, or
+ * (at your option) any later version.
+ */
+
+import cockpit from "cockpit";
+import React, { useState, useEffect, useCallback, useMemo } from "react";
+
+import {
+    Alert,
+    Button,
+    Checkbox,
+    EmptyState,
+    EmptyStateBody,
+    Label,
+    Modal,
+    ModalBody,
+    ModalFooter,
+    ModalHeader,
+    SearchInput,
+    Spinner,
+    Toolbar,
+    ToolbarContent,
+    ToolbarItem,
+    Tooltip,
+} from "@patternfly/react-core";
+import { ExclamationTriangleIcon, SyncAltIcon } from "@patternfly/react-icons";
+import {
+    Table,
+    Tbody,
+    Td,
+    Th,
+    Thead,
+    Tr,
+} from "@patternfly/react-table";
+
+import {
+    type Repository,
+    getRepositories,
+    setRepositoryEnabled,
+} from "./machines-api";
+import { recordAudit } from "./audit";
+
+const _ = cockpit.gettext;
+
+/**
+ * A host whose repositories are included in the repository view
+ */
+export interface RepositoryHost {
+    key: string;
+    label: string;
+}
+
+/**
+ * A repository across the fleet
+ */
+interface FleetRepository {
+    id: string;
+    description: string;
+    /** Host key -> whether the repository is enabled there */
+    hosts: Map<string, boolean>;
+}
+
+/**
+ * A pending enable or disable of a repository
+ */
+interface RepositoryChange {
+    repo: FleetRepository;
+    enable: boolean;
+}
+
+/**
+ * Group the repositories of every host by repository ID
+ */
+const buildFleetRepositories = (repositories: Record<string, Repository[]>): FleetRepository[] => {
+    const fleet = new Map<string, FleetRepository>();
+
+    for (const [host, repos] of Object.entries(repositories)) {
+        for (const repo of repos) {
+            let entry = fleet.get(repo.id);
+            if (!entry) {
+                entry = { id: repo.id, description: repo.description, hosts: new Map() };
+                fleet.set(repo.id, entry);
+            }
+            entry.hosts.set(host, repo.enabled);
+        }
+    }
+
+    return [...fleet.values()].sort((a, b) => a.id.localeCompare(b.id));
+};
+
+const countEnabled = (repo: FleetRepository): number => [...repo.hosts.values()].filter(Boolean).length;
+
+/**
+ * Whether a repository is enabled on some of the hosts having it but not on others
+ */
+const isInconsistent = (repo: FleetRepository): boolean => {
+    const enabled = countEnabled(repo);
+    return enabled > 0 && enabled < repo.hosts.size;
+};
+
+/**
+ * Fleet-wide list of repositories with their enabled state on each host
+ */
+export const RepositoriesView = ({
+    hosts,
+    isDisabled,
+}: {
+    hosts: RepositoryHost[];
+    isDisabled: boolean;
+}) => {
+    const [repositories, setRepositories] = useState<Record<string, Repository[]>>({});
+    const [errors, setErrors] = useState<Record<string, string>>({});
+    const [loading, setLoading] = useState(false);
+    const [filter, setFilter] = useState("");
+    const [onlyInconsistent, setOnlyInconsistent] = useState(false);
+    const [change, setChange] = useState<RepositoryChange | null>(null);
+
+    const labels = useMemo(() => new Map(hosts.map(host => [host.key, host.label])), [hosts]);
+
+    // Only re-query when the set of hosts changes
+    const hostKey = hosts.map(host => host.key).join(",");
+
+    const loadRepositories = useCallback(async () => {
+        setLoading(true);
+        const nextRepositories: Record<string, Repository[]> = {};
+        const nextErrors: Record<string, string> = {};
+
+        await Promise.all(hosts.map(async host => {
+            try {
+                nextRepositories[host.key] = await getRepositories(host.key);
+            } catch (error) {
+                nextErrors[host.key] = cockpit.format(_("Could not read repositories: $0"), (error as Error).message);
+            }
+        }));
+
+        setRepositories(nextRepositories);
+        setErrors(nextErrors);
+        setLoading(false);
+    }, [hostKey]);
+
+    useEffect(() => {
+        loadRepositories();
+    }, [loadRepositories]);
+
+    const applyChange = useCallback(async ({ repo, enable }: RepositoryChange, targets: string[]) => {
+        setChange(null);
+        setLoading(true);
+        const failures: Record<string, string> = {};
+
+        await Promise.all(targets.map(async host => {
+            const action = enable ? "enable-repo" : "disable-repo";
+            try {
+                await setRepositoryEnabled(host, repo.id, enable);
+                recordAudit({ action, host, packages: [], result: "success", detail: repo.id });
+            } catch (error) {
+                const message = (error as Error).message;
+                failures[host] = cockpit.format(enable ? _("Could not enable $0: $1") : _("Could not disable $0: $1"),
+                                                repo.id, message);
+                recordAudit({ action, host, packages: [], result: "failure", detail: `${repo.id}: ${message}` });
+            }
+        }));
+
+        await loadRepositories();
+        setErrors(prev => ({ ...prev, ...failures }));
+    }, [loadRepositories]);
+
+    const fleet = useMemo(() => buildFleetRepositories(repositories), [repositories]);
+
+    const term = filter.trim().toLowerCase();
+    const filtered = fleet.filter(repo =>
+        (!onlyInconsistent || isInconsistent(repo)) &&
+        (!term || repo.id.toLowerCase().includes(term) || repo.description.toLowerCase().includes(term))
+    );
+
+    const hostNames = (repo: FleetRepository, enabled: boolean) =>
+        [...repo.hosts].filter(([, state]) => state === enabled).map(([key]) => labels.get(key) || key).join(", ");
+
+    return (
+        <>
+            <Toolbar>
+                <ToolbarContent>
+                    <ToolbarItem>
+                        <SearchInput
+                            placeholder={_("Filter by repository")}
+                            value={filter}
+                            onChange={(_event, value) => setFilter(value)}
+                            onClear={() => setFilter("")}
+                        />
+                    </ToolbarItem>
+                    <ToolbarItem>
+                        <Checkbox
+                            id="repositories-inconsistent"
+                            label={_("Only inconsistent")}
+                            isChecked={onlyInconsistent}
+                            onChange={(_event, checked) => setOnlyInconsistent(checked)}
+                        />
+                    </ToolbarItem>
+                    <ToolbarItem>
+                        <Button
+                            variant="secondary"
+                            icon={<SyncAltIcon />}
+                            onClick={loadRepositories}
+                            isLoading={loading}
+                            isDisabled={loading}
+                        >
+                            {_("Reload")}
+                        </Button>
+                    </ToolbarItem>
+                </ToolbarContent>
+            </Toolbar>
+
+            {Object.entries(errors).map(([host, error]) => (
+                <Alert
+                    key={host}
+                    isInline
+                    isPlain
+                    variant="warning"
+                    title={cockpit.format("$0: $1", labels.get(host) || host, error)}
+                />
+            ))}
+
+            {loading && fleet.length === 0 ? (
+                <EmptyState titleText={_("Loading repositories...")} icon={Spinner} />
+            ) : filtered.length === 0 ? (
+                <EmptyState headingLevel="h3" titleText={_("No repositories")}>
+                    <EmptyStateBody>
+                        {term || onlyInconsistent
+                            ? _("No repository matches the filter.")
+                            : _("No connected machine reported any repository.")}
+                    </EmptyStateBody>
+                </EmptyState>
+            ) : (
+                <Table aria-label={_("Repositories")} variant="compact">
+                    <Thead>
+                        <Tr>
+                            <Th>{_("Repository")}</Th>
+                            <Th>{_("Enabled on")}</Th>
+                            <Th screenReaderText={_("Actions")} />
+                        </Tr>
+                    </Thead>
+                    <Tbody>
+                        {filtered.map(repo => {
+                            const enabled = countEnabled(repo);
+                            return (
+                                <Tr key={repo.id}>
+                                    <Td dataLabel={_("Repository")}>
+                                        <div>{repo.id}</div>
+                                        {repo.description !== repo.id &&
+                                            <div className="machine-details">{repo.description}</div>}
+                                    </Td>
+                                    <Td dataLabel={_("Enabled on")}>
+                                        <Tooltip content={
+                                            <div>
+                                                {enabled > 0 && <div>{cockpit.format(_("Enabled: $0"), hostNames(repo, true))}</div>}
+                                                {enabled < repo.hosts.size &&
+                                                    <div>{cockpit.format(_("Disabled: $0"), hostNames(repo, false))}</div>}
+                                            </div>
+                                        }>
+                                            <span>
+                                                {cockpit.format(_("$0 of $1 machines"), enabled, repo.hosts.size)}
+                                            </span>
+                                        </Tooltip>
+                                        {isInconsistent(repo) && (
+                                            <Label isCompact color="orange" icon={<ExclamationTriangleIcon />} className="repo-inconsistent">
+                                                {_("Inconsistent")}
+                                            </Label>
+                                        )}
+                                    </Td>
+                                    <Td isActionCell>
+                                        <Button
+                                            variant="secondary"
+                                            size="sm"
+                                            onClick={() => setChange({ repo, enable: true })}
+                                            isDisabled={isDisabled || loading || enabled === repo.hosts.size}
+                                        >
+                                            {_("Enable...")}
+                                        </Button>
+                                        {" "}
+                                        <Button
+                                            variant="secondary"
+                                            size="sm"
+                                            onClick={() => setChange({ repo, enable: false })}
+                                            isDisabled={isDisabled || loading || enabled === 0}
+                                        >
+                                            {_("Disable...")}
+                                        </Button>
+                                    </Td>
+                                </Tr>
+                            );
+                        })}
+                    </Tbody>
+                </Table>
+            )}
+
+            {change && (
+                <RepositoryChangeDialog
+                    change={change}
+                    labels={labels}
+                    onConfirm={targets => applyChange(change, targets)}
+                    onClose={() => setChange(null)}
+                />
+            )}
+        </>
+    );
+};
+
+/**
+ * Dialog to pick the machines a repository is enabled or disabled on
+ */
+const RepositoryChangeDialog = ({
+    change,
+    labels,
+    onConfirm,
+    onClose,
+}: {
+    change: RepositoryChange;
+    labels: Map<string, string>;
+    onConfirm: (hosts: string[]) => void;
+    onClose: () => void;
+}) => {
+    const { repo, enable } = change;
+    // Only machines whose state would change are offered
+    const candidates = [...repo.hosts].filter(([, enabled]) => enabled !== enable).map(([key]) => key);
+    const [selected, setSelected] = useState<Set<string>>(() => new Set(candidates));
+
+    const toggle = (host: string, checked: boolean) => {
+        const next = new Set(selected);
+        if (checked) {
+            next.add(host);
+        } else {
+            next.delete(host);
+        }
+        setSelected(next);
+    };
+
+    return (
+        <Modal isOpen variant="small" onClose={onClose} aria-labelledby="repository-dialog-title">
+            <ModalHeader
+                title={cockpit.format(enable ? _("Enable $0") : _("Disable $0"), repo.id)}
+                labelId="repository-dialog-title"
+                titleIconVariant={enable ? undefined : "warning"}
+            />
+            <ModalBody>
+                {candidates.map(host => (
+                    <Checkbox
+                        key={host}
+                        id={`repository-host-${host}`}
+                        label={labels.get(host) || host}
+                        isChecked={selected.has(host)}
+                        onChange={(_event, checked) => toggle(host, checked)}
+                    />
+                ))}
+            </ModalBody>
+            <ModalFooter>
+                <Button
+                    variant={enable ? "primary" : "warning"}
+                    onClick={() => onConfirm([...selected])}
+                    isDisabled={selected.size === 0}
+                >
+                    {cockpit.format(enable ? _("Enable on $0 machines") : _("Disable on $0 machines"), selected.size)}
+                </Button>
+                <Button variant="link" onClick={onClose}>
+                    {_("Cancel")}
+                </Button>
+            </ModalFooter>
+        </Modal>
+    );
+};
@@ -0,0 +1,83 @@
+/*
+ * This file is part of Cockpit Machines Dashboard.
+ *
+ * Copyright (C) 2026
+ *
+ * Cockpit is free software; you can redistribute it and/or modify it
+ * under the terms of the GNU Lesser General Public License as published by
+ * the Free Software Foundation; either version 2.1 of the License, or
+ * (at your option) any later version.
+ */
+
+import cockpit from "cockpit";
+
+import { type UpdateInfo } from "./machines-api";
+
+const CACHE_KEY = cockpit.localStorage.prefixedKey("machines-dashboard-status.v1");
+
+// Fields stored as ISO strings that are turned back into dates when read
+const DATE_FIELDS = new Set(["lastChecked", "lastUpdated"]);
+
+/**
+ * Last known status of a machine, kept across page loads
+ */
+export interface CachedStatus {
+    state?: string;
+    label: string;
+    updates: UpdateInfo;
+}
+
+/**
+ * Read the cached status of every machine, keyed by machine key
+ */
+export function readStatusCache(): Record<string, CachedStatus> {
+    try {
+        const data = window.localStorage.getItem(CACHE_KEY);
+        if (!data) return {};
+
+        const cache = JSON.parse(data, (key, value) =>
+            DATE_FIELDS.has(key) && typeof value === "string" ? new Date(value) : value
+        ) as Record<string, CachedStatus>;
+
+        for (const status of Object.values(cache)) {
+            // Entries written by older versions lack the newer fields
+            status.updates = {
+                ...status.updates,
+                apps: status.updates.apps ?? [],
+                facts: status.updates.facts ?? null,
+                loading: false,
+                cached: true,
+            };
+        }
+        return cache;
+    } catch (error) {
+        console.warn("Failed to read the status cache:", error);
+        return {};
+    }
+}
+
+/**
+ * Store the status of the given machines
+ *
+ * Machines without a completed check keep their previously cached status;
+ * machines no longer listed are dropped.
+ */
+export function writeStatusCache(machines: { key: string; state?: string; label: string; updates: UpdateInfo }[]): void {
+    const previous = readStatusCache();
+    const cache: Record<string, CachedStatus> = {};
+
+    for (const machine of machines) {
+        if (machine.updates.lastChecked && !machine.updates.loading) {
+            const { cached: _cached, ...updates } = machine.updates;
+            cache[machine.key] = { state: machine.state, label: machine.label, updates };
+        } else if (previous[machine.key]) {
+            cache[machine.key] = previous[machine.key];
+        }
+    }
+
+    try {
+        window.localStorage.setItem(CACHE_KEY, JSON.stringify(cache));
+    } catch (error) {
+        console.warn("Failed to write the status cache:", error);
+    }
+}
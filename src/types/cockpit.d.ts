@@ -10,12 +10,18 @@ declare module 'cockpit' {
     // Basic functions
     function gettext(message: string): string;
     function format(format: string, ...args: unknown[]): string;
+    function format_bytes(bytes: number): string;
 
     // Session storage with prefix
     const sessionStorage: {
         prefixedKey(key: string): string;
     };
 
+    // Local storage with prefix
+    const localStorage: {
+        prefixedKey(key: string): string;
+    };
+
     // User information
     interface UserInfo {
         name: string;
@@ -37,6 +43,7 @@ declare module 'cockpit' {
             match: { path?: string; interface?: string; member?: string },
             callback: (path: string, iface: string, signal: string, args: unknown[]) => void
         ): { remove(): void };
+        addEventListener(event: "close", listener: (event: unknown, options: { problem?: string }) => void): void;
         close(): void;
     }
 
@@ -63,16 +70,18 @@ declare module 'cockpit' {
     interface FileHandle {
         read(): Promise<string>;
         replace(content: string): Promise<void>;
+        modify(callback: (content: string | null) => string | null): Promise<string>;
         close(): void;
     }
 
-    function file(path: string, options?: { syntax?: unknown }): FileHandle;
+    function file(path: string, options?: { syntax?: unknown; host?: string; superuser?: string }): FileHandle;
 
     // Spawn processes
     interface SpawnOptions {
         host?: string;
         superuser?: string | boolean;
         err?: string;
+        environ?: string[];
     }
 
     interface SpawnHandle extends Promise<string> {
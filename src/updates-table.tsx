@@ -0,0 +1,169 @@
+/*
+ * This file is part of Cockpit Machines Dashboard.
+ *
+ * Copyright (C) 2026
+ *
+ * Cockpit is free software; you can redistribute it and/or modify it
+ * under the terms of the GNU Lesser General Public License as published by
+ * the Free Software Foundation; either version 2.1 of the License, or
+ * (at your option) any later version.
+ */
+
+import cockpit from "cockpit";
+import React, { useState } from "react";
+
+import { Label } from "@patternfly/react-core";
+import {
+    Table,
+    Tbody,
+    Td,
+    Th,
+    Thead,
+    Tr,
+    type ThProps,
+} from "@patternfly/react-table";
+
+import {
+    type PackageUpdate,
+    type UpdateSeverity,
+    UPDATE_SEVERITIES,
+    getSeverityDescription,
+    getUpdateSeverity,
+} from "./machines-api";
+import { isHeld } from "./holds";
+
+const _ = cockpit.gettext;
+
+type SortColumn = "name" | "version" | "arch" | "repo" | "info";
+
+const COLUMNS: { key: SortColumn; title: string }[] = [
+    { key: "name", title: _("Package") },
+    { key: "version", title: _("Version") },
+    { key: "arch", title: _("Arch") },
+    { key: "repo", title: _("Repository") },
+    { key: "info", title: _("Type") },
+];
+
+/**
+ * Label colour of each update category
+ */
+export const SEVERITY_COLORS: Record<UpdateSeverity, "red" | "orangered" | "orange" | "blue" | "teal" | "grey" | "purple"> = {
+    security: "red",
+    critical: "orangered",
+    important: "orange",
+    bugfix: "blue",
+    enhancement: "teal",
+    normal: "grey",
+    low: "grey",
+    blocked: "purple",
+};
+
+const severityRank = (info: number): number => UPDATE_SEVERITIES.indexOf(getUpdateSeverity(info));
+
+const compareUpdates = (a: PackageUpdate, b: PackageUpdate, column: SortColumn): number => {
+    if (column === "info") {
+        return severityRank(a.info) - severityRank(b.info) || a.name.localeCompare(b.name);
+    }
+    return a[column].localeCompare(b[column]) || a.name.localeCompare(b.name);
+};
+
+/**
+ * Sortable table listing the pending updates of a single machine
+ *
+ * When `selected` and `onSelect` are given, each row gets a checkbox so a
+ * subset of the packages can be picked for installation. Packages matching
+ * the `held` patterns are marked and can't be selected.
+ */
+export const UpdatesTable = ({
+    host,
+    packages,
+    selected,
+    onSelect,
+    isDisabled = false,
+    held = [],
+}: {
+    host: string;
+    packages: PackageUpdate[];
+    selected?: Set<string>;
+    onSelect?: (packageIds: string[], selected: boolean) => void;
+    isDisabled?: boolean;
+    held?: string[];
+}) => {
+    const [sortIndex, setSortIndex] = useState(0);
+    const [sortDirection, setSortDirection] = useState<"asc" | "desc">("asc");
+
+    const sortColumn = COLUMNS[sortIndex].key;
+    const sorted = [...packages].sort((a, b) => {
+        const order = compareUpdates(a, b, sortColumn);
+        return sortDirection === "asc" ? order : -order;
+    });
+
+    const getSortParams = (columnIndex: number): ThProps["sort"] => ({
+        sortBy: { index: sortIndex, direction: sortDirection },
+        onSort: (_event, index, direction) => {
+            setSortIndex(index);
+            setSortDirection(direction);
+        },
+        columnIndex,
+    });
+
+    const selectable = selected !== undefined && onSelect !== undefined;
+    const installable = packages.filter(pkg => !isHeld(pkg.name, held));
+    const allSelected = selectable && installable.length > 0 && installable.every(pkg => selected.has(pkg.id));
+
+    return (
+        <Table
+            className="updates-table"
+            aria-label={cockpit.format(_("Pending updates on $0"), host)}
+            variant="compact"
+        >
+            <Thead>
+                <Tr>
+                    {selectable && (
+                        <Th
+                            select={{
+                                onSelect: (_event, isSelecting) => onSelect(installable.map(pkg => pkg.id), isSelecting),
+                                isSelected: allSelected,
+                                isHeaderSelectDisabled: isDisabled,
+                            }}
+                            aria-label={_("Select all packages")}
+                        />
+                    )}
+                    {COLUMNS.map((column, index) => (
+                        <Th key={column.key} sort={getSortParams(index)}>{column.title}</Th>
+                    ))}
+                </Tr>
+            </Thead>
+            <Tbody>
+                {sorted.map((pkg, rowIndex) => (
+                    <Tr key={pkg.id}>
+                        {selectable && (
+                            <Td
+                                select={{
+                                    rowIndex,
+                                    onSelect: (_event, isSelecting) => onSelect([pkg.id], isSelecting),
+                                    isSelected: selected.has(pkg.id),
+                                    isDisabled: isDisabled || isHeld(pkg.name, held),
+                                }}
+                            />
+                        )}
+                        <Td dataLabel={_("Package")}>
+                            <span title={pkg.summary}>{pkg.name}</span>
+                        </Td>
+                        <Td dataLabel={_("Version")}>{pkg.version}</Td>
+                        <Td dataLabel={_("Arch")}>{pkg.arch}</Td>
+                        <Td dataLabel={_("Repository")}>{pkg.repo}</Td>
+                        <Td dataLabel={_("Type")}>
+                            <Label isCompact color={SEVERITY_COLORS[getUpdateSeverity(pkg.info)]}>
+                                {getSeverityDescription(getUpdateSeverity(pkg.info))}
+                            </Label>
+                            {isHeld(pkg.name, held) && (
+                                <Label isCompact color="grey" className="held-label">{_("Held")}</Label>
+                            )}
+                        </Td>
+                    </Tr>
+                ))}
+            </Tbody>
+        </Table>
+    );
+};